@@ -0,0 +1,308 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Home, KeyRound, Loader2, AlertTriangle, RefreshCw, Plus, Copy, Ban, CheckCircle, Lock } from 'lucide-react';
+import type { ApiKeySummary } from '@/lib/apiKeys';
+
+// The admin token is kept for the browser tab only.
+const ADMIN_TOKEN_STORAGE = 'optimatch.adminToken';
+
+// --- Main Page Component ---
+export default function ApiKeysPage() {
+  const [adminToken, setAdminToken] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [rateLimit, setRateLimit] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<{ key: ApiKeySummary; secret: string; } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const adminFetch = useCallback((url: string, init: RequestInit = {}) => {
+    return fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${adminToken}` } });
+  }, [adminToken]);
+
+  const refresh = useCallback(async () => {
+    if (!adminToken) return;
+    setIsLoading(true);
+    try {
+      const res = await adminFetch('/api/api-keys', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not load the API keys.');
+      setKeys(data.keys);
+      setError(null);
+    } catch (err) {
+      setKeys([]);
+      setError(err instanceof Error ? err.message : 'Could not load the API keys.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [adminToken, adminFetch]);
+
+  useEffect(() => {
+    const stored = sessionStorage.getItem(ADMIN_TOKEN_STORAGE) ?? '';
+    setAdminToken(stored);
+    setTokenInput(stored);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = tokenInput.trim();
+    sessionStorage.setItem(ADMIN_TOKEN_STORAGE, token);
+    setAdminToken(token);
+  };
+
+  const replaceKey = (key: ApiKeySummary) => setKeys(current => current.map(k => k.id === key.id ? key : k));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const res = await adminFetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // An empty limit leaves the server's default in place.
+        body: JSON.stringify({ name, rateLimit: rateLimit ? Number(rateLimit) : undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not create the API key.');
+      setCreated(data);
+      setCopied(false);
+      setKeys(current => [data.key, ...current]);
+      setName('');
+      setRateLimit('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the API key.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRateLimitChange = async (key: ApiKeySummary, value: string) => {
+    const limit = Number(value);
+    if (!value || limit === key.rateLimit) return;
+    try {
+      const res = await adminFetch(`/api/api-keys/${key.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rateLimit: limit }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not change the rate limit.');
+      replaceKey(data.key);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change the rate limit.');
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke the key "${key.name}"? Systems using it will be refused from now on.`)) return;
+    try {
+      const res = await adminFetch(`/api/api-keys/${key.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not revoke the API key.');
+      replaceKey(data.key);
+      if (created?.key.id === key.id) setCreated(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke the API key.');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.secret);
+    setCopied(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+            <Home size={16} />
+            <span>Return to Home</span>
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-gradient-to-br from-slate-900 to-slate-700 bg-clip-text text-transparent">API Keys</h1>
+          <p className="mt-4 text-lg text-slate-600 max-w-2xl mx-auto">Keys let other systems call <code className="text-base">/api/v1/validate</code> and <code className="text-base">/api/v1/lookup</code>. Each key has its own rate limit and usage counters.</p>
+        </div>
+
+        {error && <div className="flex items-center gap-3 p-4 bg-red-100 text-red-800 border-red-200 rounded-lg mb-6"><AlertTriangle className="w-5 h-5 flex-shrink-0" /><p><span className="font-semibold">Error:</span> {error}</p></div>}
+
+        {/* --- Admin Token --- */}
+        <form onSubmit={handleUnlock} className="bg-white rounded-xl shadow-md border border-slate-200 p-4 mb-6 flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label htmlFor="admin-token" className="block text-sm font-medium text-slate-700 mb-1">Admin token</label>
+            <input
+              id="admin-token"
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder="The server's OPTIMATCH_ADMIN_TOKEN"
+              autoComplete="off"
+              className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!tokenInput.trim()}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 disabled:opacity-50"
+          >
+            <Lock className="w-4 h-4" />
+            Unlock
+          </button>
+        </form>
+
+        {/* --- New Key --- */}
+        <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-md border border-slate-200 p-4 mb-6 flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label htmlFor="key-name" className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+            <input
+              id="key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Payroll system"
+              className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div className="sm:w-48">
+            <label htmlFor="key-rate-limit" className="block text-sm font-medium text-slate-700 mb-1">Requests per minute</label>
+            <input
+              id="key-rate-limit"
+              type="number"
+              min={1}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+              placeholder="Default"
+              className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isCreating || !name.trim() || !adminToken}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg hover:shadow-lg disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create Key
+          </button>
+        </form>
+
+        {created && (
+          <div className="p-4 bg-emerald-50 border border-emerald-200 rounded-xl mb-6">
+            <p className="text-sm font-semibold text-emerald-800">Key created for {created.key.name}. Copy it now; it is not shown again.</p>
+            <div className="flex items-center gap-2 mt-2">
+              <code className="flex-1 min-w-0 p-2 bg-white border border-emerald-200 rounded-md text-xs font-mono break-all">{created.secret}</code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center gap-1 px-3 py-2 text-xs font-semibold text-emerald-800 bg-emerald-100 rounded-md hover:bg-emerald-200"
+              >
+                {copied ? <CheckCircle className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-emerald-700 mt-2">Send it as <code>Authorization: Bearer &lt;key&gt;</code> or in the <code>X-API-Key</code> header.</p>
+          </div>
+        )}
+
+        {/* --- Keys --- */}
+        <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+              <KeyRound className="w-5 h-5 text-indigo-600" />
+              Keys <span className="text-base font-normal text-slate-500">({keys.length.toLocaleString()})</span>
+            </h2>
+            <button
+              type="button"
+              onClick={refresh}
+              disabled={isLoading || !adminToken}
+              className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-800 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+              Refresh
+            </button>
+          </div>
+
+          {keys.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 text-center">{isLoading ? 'Loading...' : adminToken ? 'No API keys yet.' : 'Enter the admin token to manage keys.'}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-slate-100 text-slate-600 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold">Key</th>
+                    <th className="px-4 py-3 text-left font-semibold">Status</th>
+                    <th className="px-3 py-3 text-right font-semibold">Per Minute</th>
+                    <th className="px-3 py-3 text-right font-semibold">Validate</th>
+                    <th className="px-3 py-3 text-right font-semibold">Lookup</th>
+                    <th className="px-3 py-3 text-right font-semibold">Rows</th>
+                    <th className="px-3 py-3 text-right font-semibold">Limited</th>
+                    <th className="px-4 py-3 text-left font-semibold">Last Used</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {keys.map(key => (
+                    <tr key={key.id} className="hover:bg-slate-50">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-slate-900">{key.name}</p>
+                        <p className="text-xs text-slate-500 font-mono">{key.prefix}…</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        {key.revokedAt ? (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-red-100 text-red-700 border-red-200">Revoked</span>
+                        ) : (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-emerald-100 text-emerald-700 border-emerald-200">Active</span>
+                        )}
+                        <p className="text-xs text-slate-500 mt-1">Created {new Date(key.createdAt).toLocaleString()}</p>
+                      </td>
+                      <td className="px-3 py-3 text-right">
+                        <input
+                          type="number"
+                          min={1}
+                          defaultValue={key.rateLimit}
+                          disabled={Boolean(key.revokedAt)}
+                          onBlur={(e) => handleRateLimitChange(key, e.target.value)}
+                          className="w-20 p-1 border border-slate-300 rounded-md text-sm text-right disabled:bg-slate-50"
+                          title="Requests per minute; saved when you leave the field"
+                        />
+                      </td>
+                      <td className="px-3 py-3 text-right text-slate-700">{key.usage.requests.validate.toLocaleString()}</td>
+                      <td className="px-3 py-3 text-right text-slate-700">{key.usage.requests.lookup.toLocaleString()}</td>
+                      <td className="px-3 py-3 text-right text-slate-700">{key.usage.rows.toLocaleString()}</td>
+                      <td className={`px-3 py-3 text-right ${key.usage.rateLimited > 0 ? 'text-amber-700' : 'text-slate-700'}`}>{key.usage.rateLimited.toLocaleString()}</td>
+                      <td className="px-4 py-3 text-xs text-slate-500">{key.usage.lastUsedAt ? new Date(key.usage.lastUsedAt).toLocaleString() : 'Never'}</td>
+                      <td className="px-4 py-3 text-right">
+                        {!key.revokedAt && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevoke(key)}
+                            className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                          >
+                            <Ban className="w-3 h-3" />
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken, revokeApiKey, updateApiKey } from '@/lib/apiKeys';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- PATCH HANDLER ---
+// Renames a key or changes its rate limit: `{ name?, rateLimit? }`.
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminToken(req);
+  if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
+
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const updated = await updateApiKey(id, { name: body.name, rateLimit: body.rateLimit });
+    if (!updated) return NextResponse.json({ error: 'API key not found.' }, { status: 404 });
+    if ('error' in updated) return NextResponse.json({ error: updated.error }, { status: 400 });
+    return NextResponse.json({ key: updated });
+  } catch (error) {
+    console.error('API Keys API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE HANDLER ---
+// Revokes a key. It stays listed with its usage counters.
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminToken(req);
+  if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
+
+  try {
+    const { id } = await params;
+    const revoked = await revokeApiKey(id);
+    if (!revoked) return NextResponse.json({ error: 'API key not found.' }, { status: 404 });
+    return NextResponse.json({ key: revoked });
+  } catch (error) {
+    console.error('API Keys API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken, createApiKey, listApiKeys } from '@/lib/apiKeys';
+
+// --- MAIN GET HANDLER ---
+// Lists the public API keys with their rate limits and usage, newest first.
+export async function GET(req: NextRequest) {
+  const denied = checkAdminToken(req);
+  if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
+
+  try {
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch (error) {
+    console.error('API Keys API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST HANDLER ---
+// Creates a key: `{ name, rateLimit? }`. The response carries the key itself, which is not shown again.
+export async function POST(req: NextRequest) {
+  const denied = checkAdminToken(req);
+  if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
+
+  try {
+    const body = await req.json();
+    const created = await createApiKey({ name: body.name, rateLimit: body.rateLimit });
+    if ('error' in created) return NextResponse.json({ error: created.error }, { status: 400 });
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('API Keys API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
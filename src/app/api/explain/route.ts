@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { type ColumnMapping, type Entry, detectColumnMapping, validateColumnMapping } from '@/lib/fields';
+import { type MatchConfig } from '@/lib/matcher';
+import { explainMatch } from '@/lib/matchExplanation';
+import { type MatchingProfile, resolveMatchingProfile, validateMatchingProfile } from '@/lib/matchingProfiles';
+import { findSourceList } from '@/lib/sourceLists';
+import { getSnapshot } from '@/lib/snapshots';
+import { stripResultColumns } from '@/lib/validation';
+
+// --- MAIN POST HANDLER ---
+// Re-matches one result row with the settings of the run that produced it and
+// returns the detail behind its verdict. Computed on demand so streamed and
+// stored results stay as small as before.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { row, columnMapping, profile: profileInput } = body;
+    const sourceListId: unknown = body.sourceList ?? null;
+    const snapshotId: unknown = body.snapshot ?? null;
+    const sourceUrl: unknown = body.sourceUrl || null;
+
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      return NextResponse.json({ error: 'Request body must include the result row as an object.' }, { status: 400 });
+    }
+    if (profileInput !== undefined && profileInput !== null) {
+      const profileError = validateMatchingProfile(profileInput);
+      if (profileError) return NextResponse.json({ error: profileError }, { status: 400 });
+    }
+    if (sourceListId !== null && typeof sourceListId !== 'string') {
+      return NextResponse.json({ error: 'sourceList must be a master list id string.' }, { status: 400 });
+    }
+    if (snapshotId !== null && typeof snapshotId !== 'string') {
+      return NextResponse.json({ error: 'snapshot must be a master list version id string.' }, { status: 400 });
+    }
+    if (sourceUrl !== null && typeof sourceUrl !== 'string') {
+      return NextResponse.json({ error: 'sourceUrl must be the uploaded source file URL string.' }, { status: 400 });
+    }
+    // A version belongs to one list, so it takes precedence over `sourceList`, and an upload over both, as in /api/validate.
+    if (!sourceUrl && snapshotId) {
+      if (!(await getSnapshot(snapshotId))) return NextResponse.json({ error: `Unknown master list version '${snapshotId}'.` }, { status: 400 });
+    } else if (!sourceUrl && sourceListId && !(await findSourceList(sourceListId))) {
+      return NextResponse.json({ error: `Unknown master list '${sourceListId}'.` }, { status: 400 });
+    }
+
+    const entry: Entry = stripResultColumns(row);
+    const headers = Object.keys(entry);
+    if (columnMapping !== undefined && columnMapping !== null) {
+      const mappingError = validateColumnMapping(columnMapping, headers);
+      if (mappingError) return NextResponse.json({ error: mappingError }, { status: 400 });
+    }
+    const mapping = (columnMapping ?? undefined) as ColumnMapping | undefined;
+
+    // The same configuration prepareValidation builds, so the verdict is the one the run gave.
+    const profile = resolveMatchingProfile(profileInput as Partial<MatchingProfile> | null | undefined);
+    const effectiveMapping = mapping ?? detectColumnMapping(headers);
+    const matchConfig: MatchConfig = { ...profile, extraFields: profile.extraFields.filter(field => effectiveMapping[field]), strictIdentifiers: true };
+
+    const loadedSource = await getDataSource(sourceUrl, sourceListId, snapshotId);
+    return NextResponse.json({
+      ...explainMatch(entry, loadedSource.index, matchConfig, mapping),
+      sourceList: loadedSource.list,
+      snapshot: loadedSource.snapshot,
+    });
+
+  } catch (error) {
+    console.error('Explain API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { headerSignature } from '@/lib/fields';
+import { downloadSpreadsheet, inspectSpreadsheet, isSheetNotFoundError, isSheetSelection } from '@/lib/parseExcel';
+
+// --- MAIN POST HANDLER ---
+// Reads an uploaded file's sheets and header layout so the user can pick the
+// sheets and confirm the column mapping before the file is sent to /api/validate.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const { fileUrl, sheets } = body;
+
+    if (!fileUrl || typeof fileUrl !== 'string') {
+      return NextResponse.json({ error: 'Request body must include fileUrl string.' }, { status: 400 });
+    }
+    if (sheets !== undefined && sheets !== null && !isSheetSelection(sheets)) {
+      return NextResponse.json({ error: 'sheets must be "all" or an array of sheet names.' }, { status: 400 });
+    }
+
+    const data = await downloadSpreadsheet(fileUrl);
+    let parsed;
+    try {
+      parsed = inspectSpreadsheet(data, sheets ?? undefined);
+    } catch (error) {
+      if (isSheetNotFoundError(error)) return NextResponse.json({ error: error.message }, { status: 400 });
+      throw error;
+    }
+    const { headers, report } = parsed;
+
+    return NextResponse.json({
+      headers,
+      signature: headerSignature(headers),
+      detectedMapping: report.columnMapping,
+      report,
+      sheets: parsed.sheets,
+    });
+
+  } catch (error) {
+    console.error('Inspect API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
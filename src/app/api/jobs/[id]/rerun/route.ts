@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rerunJob } from '@/lib/jobs';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- MAIN POST HANDLER ---
+// Queues a copy of a job against the same master list version, so its results can be reproduced.
+export async function POST(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = isRecordId(id) ? await rerunJob(id) : null;
+    if (!job) return NextResponse.json({ error: 'Job not found.' }, { status: 404 });
+    if ('error' in job) return NextResponse.json({ error: job.error }, { status: 409 });
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error('Job Rerun API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
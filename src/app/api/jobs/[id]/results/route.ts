@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, getJobResults } from '@/lib/jobs';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- MAIN GET HANDLER ---
+// Returns a finished job's rows in the same shape as a synchronous /api/validate response.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = isRecordId(id) ? await getJob(id) : null;
+    if (!job) return NextResponse.json({ error: 'Job not found.' }, { status: 404 });
+
+    const results = await getJobResults(id);
+    if (!results) return NextResponse.json({ error: `Job is ${job.status}; results are available once it completes or is cancelled.` }, { status: 409 });
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Job Results API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
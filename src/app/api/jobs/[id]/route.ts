@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob } from '@/lib/jobs';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- MAIN GET HANDLER ---
+// Reports a job's status and its running counts.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = isRecordId(id) ? await getJob(id) : null;
+    if (!job) return NextResponse.json({ error: 'Job not found.' }, { status: 404 });
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Job API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE HANDLER ---
+// Cancels a queued or running job; rows already processed are kept.
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = isRecordId(id) ? await cancelJob(id) : null;
+    if (!job) return NextResponse.json({ error: 'Job not found.' }, { status: 404 });
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Job API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
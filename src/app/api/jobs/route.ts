@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { listJobs } from '@/lib/jobs';
+
+// --- MAIN GET HANDLER ---
+// Lists background validation jobs, newest first, without their request bodies.
+export async function GET() {
+  try {
+    const jobs = await listJobs();
+    return NextResponse.json({
+      jobs: jobs.map(job => ({ ...job, request: undefined })),
+    });
+  } catch (error) {
+    console.error('Jobs API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
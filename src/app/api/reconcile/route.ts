@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileFiles } from '@/lib/reconciliation';
+
+// --- MAIN POST HANDLER ---
+// Compares two uploaded submissions of a beneficiary list with each other:
+// `{ fileA, fileB, fileNameA?, fileNameB?, sheetsA?, sheetsB?, profile? }`.
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await req.json();
+    const outcome = await reconcileFiles({
+      fileA: body.fileA,
+      fileB: body.fileB,
+      fileNameA: body.fileNameA,
+      fileNameB: body.fileNameB,
+      sheetsA: body.sheetsA,
+      sheetsB: body.sheetsB,
+      profile: body.profile,
+    });
+    if ('error' in outcome) return NextResponse.json({ error: outcome.error }, { status: 400 });
+    return NextResponse.json(outcome);
+
+  } catch (error) {
+    console.error('Reconcile API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewDecisions, getReviewHistory, recordReviewDecision } from '@/lib/reviewLog';
+import { type ReviewDecisionInput, reviewTarget, validateReviewDecision } from '@/lib/reviews';
+import { getSessionRow } from '@/lib/sessions';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ runId: string; }>; };
+
+// --- MAIN GET HANDLER ---
+// The current decision for each reviewed row of a run; `?history=1` adds every earlier decision.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { runId } = await params;
+    if (!isRecordId(runId)) return NextResponse.json({ error: `Invalid run id '${runId}'.` }, { status: 400 });
+
+    const decisions = await getReviewDecisions(runId);
+    if (req.nextUrl.searchParams.get('history') === '1') {
+      return NextResponse.json({ decisions, history: await getReviewHistory(runId) });
+    }
+    return NextResponse.json({ decisions });
+  } catch (error) {
+    console.error('Reviews API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST HANDLER ---
+// Records a reviewer's decision on one row of a saved run; a later decision on the same row supersedes it.
+// The row's status and any correction come from the run's stored results, not the request.
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { runId } = await params;
+    if (!isRecordId(runId)) return NextResponse.json({ error: `Invalid run id '${runId}'.` }, { status: 400 });
+
+    const body = await req.json();
+    const decisionError = validateReviewDecision(body);
+    if (decisionError) return NextResponse.json({ error: decisionError }, { status: 400 });
+
+    const input = body as ReviewDecisionInput;
+
+    const stored = await getSessionRow(runId, input.row);
+    if (!stored) return NextResponse.json({ error: `No finished or running validation session '${runId}'.` }, { status: 404 });
+    if (!stored.row) return NextResponse.json({ error: `Row ${input.row} is not in the results of session '${runId}'.` }, { status: 400 });
+    const target = reviewTarget(stored.row, input.action);
+    if ('error' in target) return NextResponse.json({ error: target.error }, { status: 400 });
+
+    const decision = await recordReviewDecision(runId, input, target);
+    return NextResponse.json({ decision }, { status: 201 });
+  } catch (error) {
+    console.error('Reviews API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
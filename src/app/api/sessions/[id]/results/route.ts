@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionResults } from '@/lib/sessions';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- MAIN GET HANDLER ---
+// Returns a session's rows and summary in the same shape as a synchronous
+// /api/validate response, with the session itself, so a page can restore it.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const results = isRecordId(id) ? await getSessionResults(id) : null;
+    if (!results) return NextResponse.json({ error: 'Session not found, or its job has not finished.' }, { status: 404 });
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Session Results API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSession, getSession } from '@/lib/sessions';
+import { isRecordId } from '@/lib/store';
+
+type RouteContext = { params: Promise<{ id: string; }>; };
+
+// --- MAIN GET HANDLER ---
+// Reports one session's status and counts.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = isRecordId(id) ? await getSession(id) : null;
+    if (!session) return NextResponse.json({ error: 'Session not found.' }, { status: 404 });
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Session API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE HANDLER ---
+// Deletes a finished direct run with its rows and review decisions.
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = isRecordId(id) ? await deleteSession(id) : false;
+    if (deleted === false) return NextResponse.json({ error: 'Session not found.' }, { status: 404 });
+    if (deleted !== true) return NextResponse.json({ error: deleted.error }, { status: 409 });
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Session API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
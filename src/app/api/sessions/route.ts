@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listSessions } from '@/lib/sessions';
+
+// --- MAIN GET HANDLER ---
+// Lists past validation runs and finished background jobs, newest first, with their counts.
+export async function GET() {
+  try {
+    return NextResponse.json({ sessions: await listSessions() });
+  } catch (error) {
+    console.error('Sessions API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/dataSource';
+import { analyzeSourceHealth } from '@/lib/sourceHealth';
+import { findSourceList } from '@/lib/sourceLists';
+
+// --- MAIN GET HANDLER ---
+// Integrity report for the current master list; `?list=<id>` picks a list other than the default.
+export async function GET(req: NextRequest) {
+  try {
+    const listId = req.nextUrl.searchParams.get('list');
+    if (listId && !(await findSourceList(listId))) {
+      return NextResponse.json({ error: `Unknown master list '${listId}'.` }, { status: 400 });
+    }
+
+    const loadedSource = await getDataSource(null, listId);
+    return NextResponse.json({
+      list: loadedSource.list,
+      snapshot: loadedSource.snapshot,
+      generatedAt: new Date().toISOString(),
+      ...analyzeSourceHealth(loadedSource.records),
+    });
+  } catch (error) {
+    console.error('Source Health API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
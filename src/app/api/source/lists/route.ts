@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getSourceLists, summarizeSourceList } from '@/lib/sourceLists';
+
+// --- MAIN GET HANDLER ---
+// Lists the master lists that can be validated against. Connection details are not returned.
+export async function GET() {
+  try {
+    const { lists, defaultId } = await getSourceLists();
+    return NextResponse.json({ lists: lists.map(summarizeSourceList), defaultId });
+  } catch (error) {
+    console.error('Sources API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshDataSource } from '@/lib/dataSource';
+import { findSourceList } from '@/lib/sourceLists';
+
+// --- MAIN POST HANDLER ---
+// Reloads a master list now (`{ list: <id> }`, or the default list). A failed reload keeps the cached copy.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const listId: unknown = body.list;
+    if (listId !== undefined && listId !== null && (typeof listId !== 'string' || !(await findSourceList(listId)))) {
+      return NextResponse.json({ error: `Unknown master list '${String(listId)}'.` }, { status: 400 });
+    }
+
+    const source = await refreshDataSource(listId as string | null | undefined);
+    return NextResponse.json({ source });
+  } catch (error) {
+    console.error('Source Refresh API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
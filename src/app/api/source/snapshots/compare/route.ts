@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots } from '@/lib/snapshots';
+
+// --- MAIN GET HANDLER ---
+// Compares two master list versions: `?from=<older id>&to=<newer id>`.
+export async function GET(req: NextRequest) {
+  try {
+    const from = req.nextUrl.searchParams.get('from');
+    const to = req.nextUrl.searchParams.get('to');
+    if (!from || !to) return NextResponse.json({ error: 'Both from and to version ids are required.' }, { status: 400 });
+
+    const diff = await diffSnapshots(from, to);
+    if (!diff) return NextResponse.json({ error: 'Master list version not found.' }, { status: 404 });
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Snapshot Compare API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSnapshots } from '@/lib/snapshots';
+
+// --- MAIN GET HANDLER ---
+// Lists saved master list versions, newest first; `?list=<id>` limits them to one list.
+export async function GET(req: NextRequest) {
+  try {
+    const listId = req.nextUrl.searchParams.get('list') || undefined;
+    return NextResponse.json({ snapshots: await listSnapshots(listId) });
+  } catch (error) {
+    console.error('Snapshots API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { CACHE_DURATION_MS, getDataSourceStatus } from '@/lib/dataSource';
+
+// --- MAIN GET HANDLER ---
+// Reports what the source cache holds: each configured list's record count, load time, age and last error.
+export async function GET() {
+  try {
+    return NextResponse.json({ sources: await getDataSourceStatus(), cacheDurationMs: CACHE_DURATION_MS });
+  } catch (error) {
+    console.error('Source Status API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runLookup } from '@/lib/lookup';
+import { handleApiRequest } from '@/lib/publicApi';
+
+// --- MAIN POST HANDLER ---
+// Looks up SSIDs for another system, authenticated with an API key:
+// JSON `{ lookups: [{ ssid, nameToVerify? }], sourceList?, profile? }`,
+// or a multipart upload with a batch spreadsheet in `file` and the same settings as fields (plus `sheets`).
+export async function POST(req: NextRequest) {
+  try {
+    return await handleApiRequest(req, 'lookup', async ({ body, file }) => {
+      const outcome = await runLookup(
+        { lookups: body.lookups, sourceList: body.sourceList, sheets: body.sheets, profile: body.profile },
+        file?.data
+      );
+      if ('error' in outcome) return { status: 400, body: { error: outcome.error }, rows: 0 };
+      return { status: 200, body: outcome, rows: outcome.results.length };
+    });
+
+  } catch (error) {
+    console.error('Public Lookup API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiRequest, readSubmittedRows } from '@/lib/publicApi';
+import { runSession } from '@/lib/sessions';
+import { type ValidationRequest, MAX_ENTRIES_LIMIT, prepareValidation } from '@/lib/validation';
+
+// --- MAIN POST HANDLER ---
+// Validates records for another system, authenticated with an API key:
+// JSON `{ records, columnMapping?, profile?, sourceList?, snapshot?, historyWindowDays?, fileName? }`,
+// or a multipart upload with the spreadsheet in `file` and the same settings as fields (plus `sheets`).
+// Runs are saved as sessions, so they show in the history and count as earlier submissions.
+export async function POST(req: NextRequest) {
+  try {
+    return await handleApiRequest(req, 'validate', async (input) => {
+      const submitted = readSubmittedRows(input);
+      if ('error' in submitted) return { status: 400, body: { error: submitted.error }, rows: 0 };
+
+      const { body, file } = input;
+      const request: ValidationRequest = {
+        toValidateUrl: submitted.contentId,
+        columnMapping: body.columnMapping,
+        profile: body.profile,
+        sourceList: body.sourceList,
+        snapshot: body.snapshot,
+        historyWindowDays: body.historyWindowDays,
+      };
+      const fileName = typeof body.fileName === 'string' && body.fileName ? body.fileName : file?.name || 'API records';
+
+      const prepared = await prepareValidation(request, MAX_ENTRIES_LIMIT, undefined, submitted);
+      if ('error' in prepared) return { status: 400, body: { error: prepared.error }, rows: 0 };
+      const { headers, results, summary } = await runSession(prepared, request, fileName, { signal: req.signal });
+      return { status: 200, body: { runId: summary.runId, headers, results, summary }, rows: summary.total };
+    });
+
+  } catch (error) {
+    console.error('Public Validate API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Home, ClipboardList, Loader2, AlertTriangle, FolderOpen, Trash2, RefreshCw, Layers } from 'lucide-react';
+import type { SessionListing, SessionStatus } from '@/lib/sessions';
+
+// --- Configuration Constants ---
+const statusStyles: Record<SessionStatus, string> = {
+  running: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  completed: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  cancelled: 'bg-amber-100 text-amber-700 border-amber-200',
+  interrupted: 'bg-amber-100 text-amber-700 border-amber-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const countColumns: { key: keyof SessionListing['counts']; label: string; className: string; }[] = [
+  { key: 'valid', label: 'Valid', className: 'text-emerald-700' },
+  { key: 'partialMatch', label: 'Partial', className: 'text-amber-700' },
+  { key: 'probableTypo', label: 'Typo', className: 'text-violet-700' },
+  { key: 'needsIdentifier', label: 'Needs ID', className: 'text-blue-700' },
+  { key: 'invalid', label: 'Invalid', className: 'text-red-700' },
+];
+
+// --- Main Page Component ---
+export default function HistoryPage() {
+  const [sessions, setSessions] = useState<SessionListing[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/sessions', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not load past sessions.');
+      setSessions(data.sessions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load past sessions.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = async (session: SessionListing) => {
+    if (!window.confirm(`Delete the session for ${session.fileName}, with its results and review decisions?`)) return;
+    try {
+      const res = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not delete the session.');
+      setSessions(current => current.filter(s => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the session.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+            <Home size={16} />
+            <span>Return to Home</span>
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-gradient-to-br from-slate-900 to-slate-700 bg-clip-text text-transparent">Validation History</h1>
+          <p className="mt-4 text-lg text-slate-600 max-w-2xl mx-auto">Every validation run and background job, with its counts. Open one to see its results, charts, exports and review decisions again.</p>
+        </div>
+
+        {error && <div className="flex items-center gap-3 p-4 bg-red-100 text-red-800 border-red-200 rounded-lg mb-6"><AlertTriangle className="w-5 h-5 flex-shrink-0" /><p><span className="font-semibold">Error:</span> {error}</p></div>}
+
+        <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-800">
+              <ClipboardList className="w-5 h-5 text-indigo-600" />
+              Sessions <span className="text-base font-normal text-slate-500">({sessions.length.toLocaleString()})</span>
+            </h2>
+            <button
+              type="button"
+              onClick={refresh}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-800 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+              Refresh
+            </button>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 text-center">{isLoading ? 'Loading...' : 'No validation runs yet.'}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-slate-100 text-slate-600 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold">File</th>
+                    <th className="px-4 py-3 text-left font-semibold">Run</th>
+                    <th className="px-4 py-3 text-right font-semibold">Rows</th>
+                    {countColumns.map(column => <th key={column.key} className="px-3 py-3 text-right font-semibold">{column.label}</th>)}
+                    <th className="px-3 py-3 text-right font-semibold">Reviewed</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {sessions.map(session => (
+                    <tr key={session.id} className="hover:bg-slate-50">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-slate-900 flex items-center gap-2">
+                          {session.kind === 'job' && <span title="Background job"><Layers className="w-4 h-4 text-slate-400" /></span>}
+                          {session.fileName}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {session.sourceUsed ?? session.sourceList?.name ?? 'Default Master List'}
+                          {session.snapshot && ` · version of ${new Date(session.snapshot.createdAt).toLocaleString()}`}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium border capitalize ${statusStyles[session.status]}`}>{session.status}</span>
+                        <p className="text-xs text-slate-500 mt-1">{new Date(session.createdAt).toLocaleString()}</p>
+                        {session.error && <p className="text-xs text-red-600 mt-1">{session.error}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-900">
+                        {session.processed.toLocaleString()}
+                        {session.processed < session.total && <span className="text-slate-400"> / {session.total.toLocaleString()}</span>}
+                      </td>
+                      {countColumns.map(column => (
+                        <td key={column.key} className={`px-3 py-3 text-right ${column.className}`}>{session.counts[column.key].toLocaleString()}</td>
+                      ))}
+                      <td className="px-3 py-3 text-right text-slate-700">{session.reviewed.toLocaleString()}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-2">
+                          {session.processed > 0 && session.status !== 'running' && (
+                            <Link href={`/?session=${session.id}`} className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors">
+                              <FolderOpen className="w-3 h-3" />
+                              Open
+                            </Link>
+                          )}
+                          {session.kind === 'direct' && session.status !== 'running' && (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(session)}
+                              className="p-1 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                              title="Delete this session"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,23 @@
 import { useState, useRef, ChangeEvent, FormEvent, Ref } from 'react';
 import Link from 'next/link'; // **NEW**: Import Link for navigation
 import { upload } from '@vercel/blob/client';
-import { Search, Loader2, AlertTriangle, CheckCircle2, XCircle, Database, UploadCloud, File as FileIcon, X, FileUp, List, Download, Home, RefreshCcw } from 'lucide-react'; // **NEW**: Import Home and RefreshCcw icons
+import type { IngestionReport, SheetSelection, SheetSummary } from '@/lib/parseExcel';
+import { type MatchingProfile, DEFAULT_MATCHING_PROFILE } from '@/lib/matchingProfiles';
+import MatchingSettings from '@/components/MatchingSettings';
+import SourceListPicker from '@/components/SourceListPicker';
+import SheetPicker from '@/components/SheetPicker';
+import { Search, Loader2, AlertTriangle, CheckCircle2, XCircle, UserSearch, Database, UploadCloud, File as FileIcon, X, FileUp, List, Download, Home, RefreshCcw } from 'lucide-react'; // **NEW**: Import Home and RefreshCcw icons
 
 // --- Type Definitions ---
 type ResultItem = {
   ssid: string;
+  sheet?: string;
   nameToVerify: string;
   correctNameInSystem: string;
-  status: 'Match' | 'Mismatch' | 'Not Found' | 'Lookup Success';
+  suggestedSsid?: string;
+  nameRules?: string[];
+  nameCandidates?: { name: string; ssid: string; score: number; }[];
+  status: 'Match' | 'Mismatch' | 'Not Found' | 'Lookup Success' | 'Probable Typo' | 'Needs Identifier';
 };
 type ActiveTab = 'single' | 'batch';
 
@@ -24,6 +33,9 @@ export default function LookupPage() {
   const [singleSsid, setSingleSsid] = useState('');
   const [singleName, setSingleName] = useState('');
   const [batchFile, setBatchFile] = useState<File | null>(null);
+  const [batchFileUrl, setBatchFileUrl] = useState<string | null>(null);
+  const [batchSheets, setBatchSheets] = useState<SheetSummary[]>([]);
+  const [batchSheetSelection, setBatchSheetSelection] = useState<SheetSelection | null>(null);
   
   // Custom Source File State
   const [sourceFile, setSourceFile] = useState<File | null>(null);
@@ -36,6 +48,10 @@ export default function LookupPage() {
   const [results, setResults] = useState<ResultItem[]>([]);
   const [sourceRecordCount, setSourceRecordCount] = useState<number | null>(null);
   const [sourceUsed, setSourceUsed] = useState<string | null>(null);
+  const [batchReport, setBatchReport] = useState<IngestionReport | null>(null);
+  const [matchingProfile, setMatchingProfile] = useState<MatchingProfile>(DEFAULT_MATCHING_PROFILE);
+  const [profileUsed, setProfileUsed] = useState<MatchingProfile | null>(null);
+  const [sourceListId, setSourceListId] = useState<string | null>(null);
   
   // Refs for file inputs
   const sourceFileInputRef = useRef<HTMLInputElement>(null);
@@ -50,11 +66,31 @@ export default function LookupPage() {
     setSourceFile(null); setCustomSourceUrl(null);
     if(sourceFileInputRef.current) sourceFileInputRef.current.value = "";
   };
-  const handleBatchFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    setBatchFile(e.target.files?.[0] || null);
+  const handleBatchFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setBatchFile(file);
+    setBatchFileUrl(null); setBatchSheets([]); setBatchSheetSelection(null);
+    if (!file) return;
+    // The batch is uploaded on selection and its sheets listed by /api/inspect,
+    // so a workbook's sheets can be picked before the lookup runs.
+    try {
+      const newBlob = await upload(`${Date.now()}-${file.name}`, file, { access: 'public', handleUploadUrl: '/api/upload' });
+      setBatchFileUrl(newBlob.url);
+      const res = await fetch('/api/inspect', {
+        method: 'POST',
+        body: JSON.stringify({ fileUrl: newBlob.url }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!res.ok) throw new Error('Could not read the batch file.');
+      const data: { sheets: SheetSummary[]; } = await res.json();
+      setBatchSheets(data.sheets);
+    } catch (err) {
+      console.error('Could not list the sheets of the batch file:', err);
+    }
   };
   const clearBatchFile = () => {
-    setBatchFile(null); if(batchFileInputRef.current) batchFileInputRef.current.value = "";
+    setBatchFile(null); setBatchFileUrl(null); setBatchSheets([]); setBatchSheetSelection(null);
+    if(batchFileInputRef.current) batchFileInputRef.current.value = "";
   };
   
   // **NEW**: Function to reset the entire form and results state
@@ -63,6 +99,8 @@ export default function LookupPage() {
     setError(null);
     setSourceUsed(null);
     setSourceRecordCount(null);
+    setBatchReport(null);
+    setProfileUsed(null);
     setSingleSsid('');
     setSingleName('');
     clearBatchFile();
@@ -75,7 +113,7 @@ export default function LookupPage() {
     const lookupResponse = await fetch('/api/lookup', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(payload) });
     if (!lookupResponse.ok) { const errorData = await lookupResponse.json(); throw new Error(errorData.details || 'An error occurred during lookup.'); }
     const data = await lookupResponse.json();
-    setResults(data.results); setSourceRecordCount(data.sourceRecordCount); setSourceUsed(data.sourceUsed);
+    setResults(data.results); setSourceRecordCount(data.sourceRecordCount); setSourceUsed(data.sourceUsed); setBatchReport(data.ingestion || null); setProfileUsed(data.matchingProfile || null);
   };
   
   const handleSubmit = async (e: FormEvent) => {
@@ -90,15 +128,18 @@ export default function LookupPage() {
         tempSourceUrl = newBlob.url; setCustomSourceUrl(tempSourceUrl);
       }
       if (activeTab === 'single') {
-        if (!singleSsid.trim()) throw new Error('SSID field cannot be empty.');
+        if (!singleSsid.trim() && !singleName.trim()) throw new Error('Enter an SSID, or a name to search by.');
         setStatusText('Checking single entry...');
-        await performLookup({ lookups: [{ ssid: singleSsid, nameToVerify: singleName }], sourceUrl: tempSourceUrl });
+        await performLookup({ lookups: [{ ssid: singleSsid, nameToVerify: singleName }], sourceUrl: tempSourceUrl, sourceList: sourceListId, profile: matchingProfile });
       } else if (activeTab === 'batch') {
         if (!batchFile) throw new Error('Please select a batch file to upload.');
-        setStatusText('Uploading batch file...');
-        const newBlob = await upload(`${Date.now()}-${batchFile.name}`, batchFile, { access: 'public', handleUploadUrl: '/api/upload' });
+        let uploadedUrl = batchFileUrl;
+        if (!uploadedUrl) {
+          setStatusText('Uploading batch file...');
+          uploadedUrl = (await upload(`${Date.now()}-${batchFile.name}`, batchFile, { access: 'public', handleUploadUrl: '/api/upload' })).url;
+        }
         setStatusText('Processing batch file...');
-        await performLookup({ batchFileUrl: newBlob.url, sourceUrl: tempSourceUrl });
+        await performLookup({ batchFileUrl: uploadedUrl, sheets: batchSheetSelection, sourceUrl: tempSourceUrl, sourceList: sourceListId, profile: matchingProfile });
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
@@ -107,9 +148,12 @@ export default function LookupPage() {
     }
   };
   
+  // Rows from a multi-sheet batch name their sheet.
+  const hasSheetColumn = results.some(result => result.sheet);
+
   const handleDownload = () => {
     if (results.length === 0) return;
-    const headers = ['Status', 'SSID', 'Name Checked', 'Name in System'];
+    const headers = [...(hasSheetColumn ? ['Sheet'] : []), 'Status', 'SSID', 'Name Checked', 'Name in System', 'Suggested SSID', 'Name Rules', 'Name Candidates'];
     const escapeCsvCell = (cell: string | number) => {
         const str = String(cell ?? '');
         if (str.includes(',') || str.includes('"') || str.includes('\n')) {
@@ -120,10 +164,14 @@ export default function LookupPage() {
     const csvContent = [
       headers.join(','),
       ...results.map(row => [
+        ...(hasSheetColumn ? [escapeCsvCell(row.sheet || '')] : []),
         escapeCsvCell(row.status),
         escapeCsvCell(row.ssid),
         escapeCsvCell(row.nameToVerify),
-        escapeCsvCell(row.correctNameInSystem)
+        escapeCsvCell(row.correctNameInSystem),
+        escapeCsvCell(row.suggestedSsid || ''),
+        escapeCsvCell((row.nameRules || []).join('; ')),
+        escapeCsvCell((row.nameCandidates || []).map(c => `${c.name} (${c.ssid || 'N/A'}, ${c.score}%)`).join('; '))
       ].join(','))
     ].join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -145,12 +193,16 @@ export default function LookupPage() {
       Mismatch: "bg-amber-100 text-amber-800",
       'Lookup Success': "bg-sky-100 text-sky-800",
       'Not Found': "bg-slate-200 text-slate-700",
+      'Probable Typo': "bg-violet-100 text-violet-800",
+      'Needs Identifier': "bg-blue-100 text-blue-800",
     };
     const icons = {
       Match: <CheckCircle2 size={14}/>,
       Mismatch: <AlertTriangle size={14}/>,
       'Lookup Success': <CheckCircle2 size={14}/>,
       'Not Found': <XCircle size={14}/>,
+      'Probable Typo': <AlertTriangle size={14}/>,
+      'Needs Identifier': <UserSearch size={14}/>,
     };
     return <span className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium ${styles[status]}`}>{icons[status]} {status === 'Lookup Success' ? 'Found' : status}</span>;
   };
@@ -203,7 +255,7 @@ export default function LookupPage() {
                     <div className="space-y-4">
                         <div>
                             <label htmlFor="ssid-input" className="block text-sm font-medium text-slate-700 mb-1">SSID</label>
-                            <input id="ssid-input" type="text" value={singleSsid} onChange={(e) => setSingleSsid(e.target.value)} placeholder="Enter SSID to look up" className="w-full p-2.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition" />
+                            <input id="ssid-input" type="text" value={singleSsid} onChange={(e) => setSingleSsid(e.target.value)} placeholder="Enter SSID to look up (or leave blank to search by name)" className="w-full p-2.5 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition" />
                         </div>
                         <div>
                             <label htmlFor="name-input" className="block text-sm font-medium text-slate-700 mb-1">Name to Verify <span className="text-slate-400">(Optional)</span></label>
@@ -213,6 +265,11 @@ export default function LookupPage() {
                 ) : (
                     <div>
                       {renderFileUploader(batchFile, handleBatchFileChange, clearBatchFile, batchFileInputRef, 'batch-file-upload', 'Click to upload a batch file', 'File with SSIDs and optional names')}
+                      {batchSheets.length > 1 && (
+                        <div className="mt-3">
+                          <SheetPicker sheets={batchSheets} value={batchSheetSelection} onChange={setBatchSheetSelection} disabled={isLoading} />
+                        </div>
+                      )}
                       <div className="mt-3 text-center p-3 bg-slate-50 rounded-md border border-slate-200">
                         <p className="text-xs text-slate-600">File should have headers: <code className="font-mono text-slate-800">SSID</code> & <code className="font-mono text-slate-800">FULL NAME</code> (optional).</p>
                         <a href="/sample-batch.csv" download="OptiMatch_Batch_Sample.csv" className="mt-1.5 inline-flex items-center gap-1.5 text-xs text-indigo-600 hover:text-indigo-800 font-semibold transition">
@@ -231,9 +288,17 @@ export default function LookupPage() {
 
               <div className="mt-6 text-center">
                   <button type="button" onClick={() => setShowCustomSource(!showCustomSource)} className="text-sm text-slate-500 hover:text-slate-800 hover:underline">
-                      {showCustomSource ? 'Use default data source' : 'Use a custom data source?'}
+                      {showCustomSource ? 'Use a master list' : 'Use a custom data source?'}
                   </button>
               </div>
+              {!showCustomSource && (
+                  <div className="mt-6">
+                      <SourceListPicker value={sourceListId} onChange={setSourceListId} />
+                  </div>
+              )}
+              <div className="mt-6">
+                  <MatchingSettings profile={matchingProfile} onChange={setMatchingProfile} />
+              </div>
               {showCustomSource && (
                   <div className="mt-4 pt-4 border-t border-dashed">
                       {renderFileUploader(sourceFile, handleSourceFileChange, clearSourceFile, sourceFileInputRef, 'source-file-upload', 'Upload a source file', 'This will override the default list')}
@@ -251,7 +316,9 @@ export default function LookupPage() {
                       <Database className="w-5 h-5 flex-shrink-0" />
                       <div>
                           <p>Checked against a list of <strong>{sourceRecordCount?.toLocaleString()}</strong> records.</p>
-                          <p className="text-xs mt-1">Source: <span className="font-mono bg-green-200 py-0.5 px-1 rounded">{customSourceUrl ? (sourceFile?.name || 'Custom Source') : 'Default Master List'}</span></p>
+                          <p className="text-xs mt-1">Source: <span className="font-mono bg-green-200 py-0.5 px-1 rounded">{customSourceUrl ? (sourceFile?.name || 'Custom Source') : sourceUsed}</span></p>
+                          {profileUsed && <p className="text-xs mt-1">Matching profile: <strong>{profileUsed.name}</strong> ({profileUsed.nameThreshold}% {profileUsed.scorer})</p>}
+                          {batchReport && <p className="text-xs mt-1" title={batchReport.headerReason}>Batch header on row {batchReport.headerRowIndex + 1}; {batchReport.recordCount} rows read, {batchReport.skippedRows} empty rows skipped.</p>}
                       </div>
                   </div>
               )}
@@ -284,6 +351,7 @@ export default function LookupPage() {
                         <table className="min-w-full divide-y divide-slate-200">
                           <thead className="bg-slate-50 sticky top-0 z-10">
                             <tr>
+                              {hasSheetColumn && <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Sheet</th>}
                               <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
                               <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">SSID</th>
                               <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Name Checked</th>
@@ -293,10 +361,25 @@ export default function LookupPage() {
                           <tbody className="bg-white divide-y divide-slate-200">
                             {results.map((result, index) => (
                               <tr key={index} className="hover:bg-slate-50/70 transition-colors">
+                                {hasSheetColumn && <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-600">{result.sheet}</td>}
                                 <td className="px-4 py-3 whitespace-nowrap">{renderStatusBadge(result.status)}</td>
-                                <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-slate-600">{result.ssid}</td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-slate-600">
+                                  {result.ssid}
+                                  {result.suggestedSsid && <span className="block text-xs text-violet-700">Did you mean {result.suggestedSsid}?</span>}
+                                </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500 italic">{result.nameToVerify || 'N/A'}</td>
-                                <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-800 font-semibold">{result.correctNameInSystem || 'N/A'}</td>
+                                <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-800 font-semibold">
+                                  {result.nameCandidates ? (
+                                    <ul className="space-y-0.5 font-normal">
+                                      {result.nameCandidates.map(candidate => (
+                                        <li key={`${candidate.ssid}-${candidate.name}`}>{candidate.name} <span className="font-mono text-xs text-slate-500">{candidate.ssid || 'N/A'} · {candidate.score}%</span></li>
+                                      ))}
+                                    </ul>
+                                  ) : (result.correctNameInSystem || 'N/A')}
+                                  {result.nameRules && result.nameRules.length > 0 && (
+                                    <span className="block text-xs font-normal text-slate-500">Matched via {result.nameRules.join(', ')}</span>
+                                  )}
+                                </td>
                               </tr>
                             ))}
                           </tbody>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { upload } from '@vercel/blob/client';
 import Link from 'next/link';
 import {
@@ -18,21 +18,50 @@ import {
   X,
   Clock,
   Database,
+  History,
+  HeartPulse,
   Download,
   Search,
   FileCheck2,
   TrendingUp,
+  StopCircle,
+  Layers,
+  ClipboardList,
+  GitCompareArrows,
+  KeyRound,
 } from 'lucide-react';
 
+import type { IngestionReport, SheetSelection, SheetSummary } from '@/lib/parseExcel';
+import type { ColumnMapping } from '@/lib/fields';
+import { type MatchingProfile, DEFAULT_MATCHING_PROFILE } from '@/lib/matchingProfiles';
+import type { ValidationProgress, ValidationSummary } from '@/lib/validation';
+import type { SessionListing } from '@/lib/sessions';
+import type { SourceListSummary } from '@/lib/sourceLists';
+import type { SourceSnapshot } from '@/lib/snapshots';
+import { REVIEWABLE_STATUSES, reviewColumns } from '@/lib/reviews';
+import { readNdjson } from '@/lib/ndjson';
+import { useSavedColumnMappings } from '@/hooks/useSavedColumnMappings';
+import { useReviewDecisions } from '@/hooks/useReviewDecisions';
+import { type JobListing, useValidationJobs } from '@/hooks/useValidationJobs';
+
 // Import components
 import FileUploader from '@/components/FileUploader';
-import ResultTable from '@/components/ResultTable';
+import ResultTable, { type ResultRow } from '@/components/ResultTable';
+import MatchDetail, { type MatchDetailContext } from '@/components/MatchDetail';
+import ReviewForm from '@/components/ReviewForm';
 import MatchChart from '@/components/MatchChart';
 import DownloadButtons from '@/components/DownloadButtons';
+import ColumnMappingStep from '@/components/ColumnMappingStep';
+import MatchingSettings from '@/components/MatchingSettings';
+import JobsList from '@/components/JobsList';
+import SourceListPicker from '@/components/SourceListPicker';
+import SourceFileUpload from '@/components/SourceFileUpload';
+import HistoryWindowPicker, { DEFAULT_HISTORY_WINDOW_DAYS } from '@/components/HistoryWindowPicker';
+import SheetPicker from '@/components/SheetPicker';
 
 // Define types for better type safety
 interface ValidationResult {
-  status: 'Valid' | 'Partial Match' | 'Invalid';
+  status: 'Valid' | 'Partial Match' | 'Probable Typo' | 'Needs Identifier' | 'Invalid';
   [key: string]: any;
 }
 
@@ -40,23 +69,18 @@ interface ValidationStats {
   total: number;
   exact: number;
   partial: number;
+  typo: number;
+  needsIdentifier: number;
   none: number;
   accuracy: string; // Still needed for the main Match Distribution summary
 }
 
-interface ApiResponse {
-  results: ValidationResult[];
-  headers?: string[];
-  summary?: {
-    total: number;
-    valid: number;
-    invalid: number;
-    partialMatch: number;
-    processingErrors?: number; 
-    duplicatesInValidationFile?: number;
-    sourceFileWarnings?: string[];
-  };
-}
+// Events of the streamed /api/validate response (see the route's StreamEvent)
+type ValidationStreamEvent =
+  | { type: 'start'; runId: string; total: number; headers: string[]; }
+  | ({ type: 'progress'; rows: ValidationResult[]; } & ValidationProgress)
+  | { type: 'done'; headers: string[]; summary: ValidationSummary; }
+  | { type: 'error'; error: string; details: string; };
 
 export default function Home() {
   const [toValidateFile, setToValidateFile] = useState<File | null>(null);
@@ -75,16 +99,50 @@ export default function Home() {
   const [validationStats, setValidationStats] = useState<ValidationStats | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [processingTime, setProcessingTime] = useState(0);
+  const [ingestionReport, setIngestionReport] = useState<IngestionReport | null>(null);
+
+  // Column mapping state, filled in by /api/inspect after upload
+  const [fileHeaders, setFileHeaders] = useState<string[]>([]);
+  const [headerSig, setHeaderSig] = useState('');
+  const [detectedMapping, setDetectedMapping] = useState<ColumnMapping>({});
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [usingSavedMapping, setUsingSavedMapping] = useState(false);
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [sheetList, setSheetList] = useState<SheetSummary[]>([]);
+  const [sheetSelection, setSheetSelection] = useState<SheetSelection | null>(null);
+  const [matchingProfile, setMatchingProfile] = useState<MatchingProfile>(DEFAULT_MATCHING_PROFILE);
+  const [profileUsed, setProfileUsed] = useState<MatchingProfile | null>(null);
+  const [sourceListId, setSourceListId] = useState<string | null>(null);
+  const [sourceListUsed, setSourceListUsed] = useState<SourceListSummary | null>(null);
+  const [snapshotUsed, setSnapshotUsed] = useState<SourceSnapshot | null>(null);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [sourceFileUrl, setSourceFileUrl] = useState<string | null>(null);
+  const [isUploadingSource, setIsUploadingSource] = useState(false);
+  const [sourceUsed, setSourceUsed] = useState<string | null>(null);
+  const [sourceRecordCount, setSourceRecordCount] = useState<number | null>(null);
+  const [sourceUrlUsed, setSourceUrlUsed] = useState<string | null>(null);
+  const [historyWindowDays, setHistoryWindowDays] = useState(DEFAULT_HISTORY_WINDOW_DAYS);
+  const [earlierSubmissions, setEarlierSubmissions] = useState<number | null>(null);
+  const [mappingUsed, setMappingUsed] = useState<ColumnMapping | null>(null);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [resultFileName, setResultFileName] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ValidationProgress | null>(null);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { getSavedMapping, saveMapping } = useSavedColumnMappings();
+  const { jobs, error: jobsError, refresh: refreshJobs, cancelJob, rerunJob } = useValidationJobs();
+  const { decisions: reviewDecisions, error: reviewError, decide, reviewer, setReviewer } = useReviewDecisions(runId);
   const uploaderWarning = "For best results, please ensure the header is the first row."; 
 
   // Simplified steps to reflect the new, streamlined flow
-  const steps = ['Upload File', 'Validate', 'Results'];
+  const steps = ['Upload File', 'Map Columns', 'Validate', 'Results'];
 
   useEffect(() => {
     // Only proceed to preview if the validation file is uploaded
     if (toValidateFileUrl) {
       setShowPreview(true);
-      setCurrentStep(1); // 'Validate' step
+      setCurrentStep(1); // 'Map Columns' step
     } else {
       setShowPreview(false);
       setCurrentStep(0); // 'Upload File' step
@@ -94,40 +152,79 @@ export default function Home() {
   useEffect(() => {
     // Move to the 'Results' step once results are available
     if (results.length > 0) {
-      setCurrentStep(2); 
+      setCurrentStep(3); 
     }
   }, [results]);
 
-  const showNotification = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
+  const showNotification = useCallback((message: string, type: 'success' | 'error' | 'info' = 'success') => {
     setToastMessage(message);
     setToastType(type);
     setShowToast(true);
     // Corrected: Set showToast to false after 4000ms
     setTimeout(() => setShowToast(false), 4000); 
-  };
+  }, []);
 
-  const calculateStats = (data: ValidationResult[]): ValidationStats => {
+  const calculateStats = useCallback((data: ValidationResult[]): ValidationStats => {
     if (data.length === 0) {
-      return { total: 0, exact: 0, partial: 0, none: 0, accuracy: '0.0' };
+      return { total: 0, exact: 0, partial: 0, typo: 0, needsIdentifier: 0, none: 0, accuracy: '0.0' };
     }
+    // Rows carry their status in the 'Match Status' column
+    const countStatus = (status: ValidationResult['status']) => data.filter((item) => item['Match Status'] === status).length;
     const totalEntries = data.length;
-    const exactMatches = data.filter((item) => item.status === 'Valid').length;
-    const partialMatches = data.filter((item) => item.status === 'Partial Match').length;
-    const noMatches = data.filter((item) => item.status === 'Invalid').length;
+    const exactMatches = countStatus('Valid');
+    const partialMatches = countStatus('Partial Match');
+    const probableTypos = countStatus('Probable Typo');
+    const needsIdentifier = countStatus('Needs Identifier');
+    const noMatches = countStatus('Invalid');
 
     return {
       total: totalEntries,
       exact: exactMatches,
       partial: partialMatches,
+      typo: probableTypos,
+      needsIdentifier,
       none: noMatches,
       accuracy: ((exactMatches / totalEntries) * 100).toFixed(1),
     };
-  };
+  }, []);
   
+  // Reads the uploaded file's sheets and headers and proposes a mapping: a saved
+  // one for this header layout if the user confirmed one before, else the detected one.
+  const inspectFile = async (fileUrl: string, sheets: SheetSelection | null = null) => {
+    setIsInspecting(true);
+    try {
+      const res = await fetch('/api/inspect', {
+        method: 'POST',
+        body: JSON.stringify({ fileUrl, sheets }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!res.ok) throw new Error('Could not read the file headers.');
+      const data: { headers: string[]; signature: string; detectedMapping: ColumnMapping; sheets: SheetSummary[]; } = await res.json();
+      const savedMapping = getSavedMapping(data.signature);
+
+      setSheetList(data.sheets);
+      setFileHeaders(data.headers);
+      setHeaderSig(data.signature);
+      setDetectedMapping(data.detectedMapping);
+      setColumnMapping(savedMapping || data.detectedMapping);
+      setUsingSavedMapping(Boolean(savedMapping));
+    } catch (error) {
+      // Validation still works without a mapping; the server falls back to guessing columns.
+      console.error('Inspect error:', error);
+      showNotification('Could not detect columns; they will be matched automatically.', 'info');
+    } finally {
+      setIsInspecting(false);
+    }
+  };
+
   const handleFileSelectAndUpload = async (file: File | null) => {
     // Reset file and URL states when a new file is selected
     setToValidateFile(file);
     setToValidateFileUrl(null);
+    setFileHeaders([]);
+    setColumnMapping({});
+    setSheetList([]);
+    setSheetSelection(null);
     
     if (!file) return;
 
@@ -146,6 +243,7 @@ export default function Home() {
 
       setToValidateFileUrl(newBlob.url); // Store the URL of the uploaded file
       showNotification(`${file.name} uploaded successfully.`, 'success');
+      await inspectFile(newBlob.url);
     } catch (error) {
       console.error('An error occurred during upload:', error);
       showNotification(`Failed to upload ${file.name}. Please try again.`, 'error');
@@ -155,6 +253,29 @@ export default function Home() {
     }
   };
 
+  // An uploaded source replaces the master list for runs started from this page until it is removed
+  const handleSourceFileSelect = async (file: File | null) => {
+    setSourceFile(file);
+    setSourceFileUrl(null);
+    if (!file) return;
+
+    setIsUploadingSource(true);
+    try {
+      const newBlob = await upload(`source-${Date.now()}-${Math.random().toString(36).substring(7)}-${file.name}`, file, {
+        access: 'public',
+        handleUploadUrl: '/api/upload',
+      });
+      setSourceFileUrl(newBlob.url);
+      showNotification(`${file.name} will be used as the source.`, 'success');
+    } catch (error) {
+      console.error('An error occurred during source upload:', error);
+      showNotification(`Failed to upload ${file.name}. Please try again.`, 'error');
+      setSourceFile(null);
+    } finally {
+      setIsUploadingSource(false);
+    }
+  };
+
   const handleValidation = async () => {
     // Prevent validation if no file has been uploaded
     if (!toValidateFileUrl) {
@@ -162,57 +283,186 @@ export default function Home() {
       return;
     }
     setIsLoading(true);
-    setCurrentStep(1); // Set current step to 'Validate' (processing)
+    setCurrentStep(2); // Set current step to 'Validate' (processing)
+    setResults([]);
+    setRunId(null);
+    setResultFileName(null);
+    setValidationStats(null);
+    setProgress(null);
+    setWasCancelled(false);
     const startTime = Date.now();
     setStatus('Initializing validation process...');
     showNotification('Starting comprehensive validation...', 'info');
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let received: ValidationResult[] = [];
+
     try {
-      setStatus('Processing data with our matching algorithms...');
-      // Call the backend /api/validate endpoint
+      setStatus('Loading the source list and your file...');
+      const hasMapping = fileHeaders.length > 0;
+      if (hasMapping && rememberMapping) saveMapping(headerSig, columnMapping);
+
+      // Call the backend /api/validate endpoint, asking for a streamed response
       const res = await fetch('/api/validate', {
         method: 'POST',
-        // Send only the URL of the validation file; source is fetched by the backend
-        body: JSON.stringify({ toValidateUrl: toValidateFileUrl }), 
+        // Send the URL of the validation file and the confirmed mapping; source is fetched by the backend
+        body: JSON.stringify({ toValidateUrl: toValidateFileUrl, columnMapping: hasMapping ? columnMapping : undefined, profile: matchingProfile, sourceUrl: sourceFileUrl, sourceList: sourceListId, sheets: sheetSelection, historyWindowDays, stream: true, fileName: toValidateFile?.name }), 
         headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         // Handle API errors, parsing detailed error messages if available
         let errorDetails = 'Validation failed on server.';
         try {
           const errorData = await res.json();
           errorDetails = errorData.details || errorData.error || errorDetails;
-        } catch (jsonError) {
+        } catch {
           errorDetails = await res.text(); // Fallback to raw text if JSON parsing fails
         }
         throw new Error(errorDetails);
       }
 
-      const result: ApiResponse = await res.json();
+      // Rows arrive in batches; the table and chart fill in as each one lands.
+      let summary: ValidationSummary | null = null;
+      await readNdjson<ValidationStreamEvent>(res.body, event => {
+        if (event.type === 'start') {
+          setRunId(event.runId);
+          // The run is saved as a session as it goes; the URL lets a reload reopen it.
+          window.history.replaceState(null, '', `?session=${event.runId}`);
+          setDetectedHeaders(event.headers);
+          setProgress({ processed: 0, total: event.total, counts: { valid: 0, partialMatch: 0, probableTypo: 0, needsIdentifier: 0, invalid: 0 }, duplicates: 0, earlierSubmissions: 0 });
+          setStatus('Processing data with our matching algorithms...');
+        } else if (event.type === 'progress') {
+          received = [...received, ...event.rows];
+          setResults(received);
+          setValidationStats(calculateStats(received));
+          setProgress({ processed: event.processed, total: event.total, counts: event.counts, duplicates: event.duplicates, earlierSubmissions: event.earlierSubmissions });
+        } else if (event.type === 'done') {
+          setDetectedHeaders(event.headers);
+          summary = event.summary;
+        } else {
+          throw new Error(event.details || event.error);
+        }
+      });
+      if (!summary) throw new Error('The validation stream ended before the results were complete.');
+      const { ingestion, matchingProfile: usedProfile, sourceList: usedList, snapshot: usedSnapshot, columnMapping: usedMapping, sourceUsed: usedSource, sourceRecordCount: usedRecordCount, sourceUrl: usedSourceUrl, submissionHistory: usedHistory, earlierSubmissions: usedEarlier } = summary as ValidationSummary;
+
       const endTime = Date.now();
       const duration = ((endTime - startTime) / 1000).toFixed(1); // Calculate processing time
 
-      // Update state with validation results and statistics
-      setResults(result.results);
-      setDetectedHeaders(result.headers || []);
-      setValidationStats(calculateStats(result.results));
       setProcessingTime(parseFloat(duration));
+      setIngestionReport(ingestion || null);
+      setProfileUsed(usedProfile || null);
+      setSourceListUsed(usedList || null);
+      setSnapshotUsed(usedSnapshot || null);
+      setSourceUsed(usedSource || null);
+      setSourceRecordCount(usedRecordCount ?? null);
+      setSourceUrlUsed(usedSourceUrl || null);
+      setEarlierSubmissions(usedHistory ? usedEarlier : null);
+      setMappingUsed(usedMapping || null);
       setStatus(''); // Clear status message
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever was processed before the user stopped the run
+        setWasCancelled(true);
+        setProcessingTime(parseFloat(((Date.now() - startTime) / 1000).toFixed(1)));
+        setStatus('');
+        showNotification(`Validation cancelled after ${received.length} rows.`, 'info');
+        if (received.length === 0) setCurrentStep(1);
+        return;
+      }
       // Display error notification and reset step on failure
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       showNotification(`Validation failed: ${errorMessage}`, 'error');
       setStatus('');
+      setResults([]);
+      setValidationStats(null);
       setCurrentStep(0); // Go back to 'Upload File' step on error
       console.error('Validation error:', error);
     } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
       setIsLoading(false); // Always reset loading state
     }
   };
 
+  // Queues the run on the server instead of waiting for it; progress shows in the jobs list
+  const handleBackgroundValidation = async () => {
+    if (!toValidateFileUrl) {
+      showNotification('Please upload the validation file before proceeding.', 'error');
+      return;
+    }
+    const hasMapping = fileHeaders.length > 0;
+    if (hasMapping && rememberMapping) saveMapping(headerSig, columnMapping);
+
+    try {
+      const res = await fetch('/api/validate', {
+        method: 'POST',
+        body: JSON.stringify({ toValidateUrl: toValidateFileUrl, columnMapping: hasMapping ? columnMapping : undefined, profile: matchingProfile, sourceUrl: sourceFileUrl, sourceList: sourceListId, sheets: sheetSelection, historyWindowDays, async: true, fileName: toValidateFile?.name }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not start the background job.');
+      showNotification('Validation queued as a background job.', 'success');
+      await refreshJobs();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      showNotification(`Could not queue validation: ${errorMessage}`, 'error');
+    }
+  };
+
+  // Loads a saved run, a direct one or a finished background job, into the results views
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/sessions/${id}/results`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not load the session.');
+      const { session, headers, results: sessionResults, summary }: { session: SessionListing; headers: string[]; results: ValidationResult[]; summary?: ValidationSummary; } = data;
+
+      setResults(sessionResults);
+      setDetectedHeaders(headers);
+      setValidationStats(calculateStats(sessionResults));
+      setIngestionReport(summary?.ingestion || null);
+      setProfileUsed(summary?.matchingProfile || null);
+      setSourceListUsed(summary?.sourceList || null);
+      setSnapshotUsed(summary?.snapshot || null);
+      setSourceUsed(summary?.sourceUsed || null);
+      setSourceRecordCount(summary?.sourceRecordCount ?? null);
+      setSourceUrlUsed(summary?.sourceUrl || null);
+      setEarlierSubmissions(summary?.submissionHistory ? summary.earlierSubmissions : null);
+      setMappingUsed(summary?.columnMapping || null);
+      setRunId(summary?.runId || session.id);
+      setResultFileName(session.fileName);
+      setWasCancelled(session.status !== 'completed');
+      setProcessingTime(session.finishedAt ? parseFloat(((Date.parse(session.finishedAt) - Date.parse(session.startedAt)) / 1000).toFixed(1)) : 0);
+      setCurrentStep(3);
+      window.history.replaceState(null, '', `?session=${session.id}`);
+      showNotification(`Opened results for ${session.fileName}.`, 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      showNotification(errorMessage, 'error');
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [calculateStats, showNotification]);
+
+  // A reload, or a link from the history page, reopens the session named in the URL.
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get('session');
+    if (sessionId) openSession(sessionId);
+  }, [openSession]);
+
+  const handleOpenJob = (job: JobListing) => openSession(job.id);
+
+  // Aborting the request closes the stream, which stops the run on the server
+  const handleCancelValidation = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleReset = () => {
     // Reset all relevant state variables to return to initial upload state
+    abortControllerRef.current?.abort();
     setResults([]);
     setToValidateFile(null);
     setToValidateFileUrl(null);
@@ -221,23 +471,69 @@ export default function Home() {
     setShowPreview(false);
     setValidationStats(null);
     setProcessingTime(0);
+    setIngestionReport(null);
+    setProfileUsed(null);
+    setSourceListUsed(null);
+    setSnapshotUsed(null);
+    setSourceFile(null);
+    setSourceFileUrl(null);
+    setSourceUsed(null);
+    setSourceRecordCount(null);
+    setSourceUrlUsed(null);
+    setEarlierSubmissions(null);
+    setMappingUsed(null);
+    setRunId(null);
+    setResultFileName(null);
+    window.history.replaceState(null, '', window.location.pathname);
+    setWasCancelled(false);
+    setFileHeaders([]);
+    setColumnMapping({});
+    setSheetList([]);
+    setSheetSelection(null);
     showNotification('Session cleared - ready for new validation', 'info');
   };
 
-  const handleApproveMatch = useCallback((indexToUpdate: number) => {
-    const updatedResults = [...results];
-    const recordToUpdate = updatedResults[indexToUpdate];
-
-    // Manually approve a match, updating its status and reason
-    if (recordToUpdate) {
-      recordToUpdate['Match Status'] = 'Valid';
-      recordToUpdate['Match Reason'] = 'Manually Approved by User';
-      
-      setResults(updatedResults); // Update results to trigger re-render
-      setValidationStats(calculateStats(updatedResults)); // Recalculate stats
-      showNotification('Match has been manually approved.', 'success');
-    }
-  }, [results]); // Dependency array ensures memoization based on results state
+  // The row detail re-matches a row with the settings of the run it came from.
+  const detailContext = useMemo<MatchDetailContext>(() => ({
+    columnMapping: mappingUsed ?? undefined,
+    profile: profileUsed,
+    sourceList: sourceListUsed?.id ?? null,
+    snapshot: snapshotUsed?.id ?? null,
+    sourceUrl: sourceUrlUsed,
+  }), [mappingUsed, profileUsed, sourceListUsed, snapshotUsed, sourceUrlUsed]);
+
+  // Reviewer decisions are stored on the server against the run's 1-based row numbers.
+  const rowNumbers = useMemo(() => new Map<ResultRow, number>(results.map((row, index) => [row, index + 1])), [results]);
+  const decisionFor = useCallback((row: ResultRow) => reviewDecisions.get(rowNumbers.get(row) ?? 0), [reviewDecisions, rowNumbers]);
+  const exportRows = useMemo(
+    () => runId ? results.map((row, index) => ({ ...row, ...reviewColumns(reviewDecisions.get(index + 1)) })) : results,
+    [runId, results, reviewDecisions]
+  );
+
+  const renderRowDetail = (row: ResultRow) => (
+    <div className="space-y-4">
+      <MatchDetail row={row} context={detailContext} />
+      {runId && (REVIEWABLE_STATUSES.includes(row['Match Status']) || decisionFor(row)) && (
+        <ReviewForm
+          row={row}
+          rowNumber={rowNumbers.get(row) ?? 0}
+          decision={decisionFor(row)}
+          reviewer={reviewer}
+          onReviewerChange={setReviewer}
+          onDecide={async input => {
+            const decision = await decide(input);
+            showNotification(`Row ${decision.row} ${reviewColumns(decision)['Review Decision'].toLowerCase()}.`, 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+
+  // Different sheets can have different columns, so the mapping is proposed again.
+  const handleSheetSelection = async (selection: SheetSelection | null) => {
+    setSheetSelection(selection);
+    if (toValidateFileUrl) await inspectFile(toValidateFileUrl, selection);
+  };
 
   const handleEditFiles = () => {
     // Allow user to go back to the upload step to change the file
@@ -246,7 +542,7 @@ export default function Home() {
   };
 
   // Determine if the validation button should be disabled
-  const isValidationDisabled = isUploadingValidation || isLoading;
+  const isValidationDisabled = isUploadingValidation || isUploadingSource || isLoading || isInspecting;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -297,6 +593,26 @@ export default function Home() {
             
             {/* Right side - Quick Lookup Action Button */}
             <div className="flex items-center gap-3">
+              <Link href="/source/health" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+                <HeartPulse className="w-4 h-4" />
+                Health
+              </Link>
+              <Link href="/history" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+                <ClipboardList className="w-4 h-4" />
+                History
+              </Link>
+              <Link href="/reconcile" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+                <GitCompareArrows className="w-4 h-4" />
+                Reconcile
+              </Link>
+              <Link href="/api-keys" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+                <KeyRound className="w-4 h-4" />
+                API Keys
+              </Link>
+              <Link href="/source/versions" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
+                <History className="w-4 h-4" />
+                Versions
+              </Link>
               <Link href="/lookup" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors">
                 <Search className="w-4 h-4" />
                 Quick Lookup
@@ -341,7 +657,7 @@ export default function Home() {
         </div>
 
         {/* Main Content Area: Conditional rendering based on validation state */}
-        {!showPreview && (
+        {!showPreview && results.length === 0 && (
           // Initial Upload Section: Displayed when no file is uploaded yet
           <div className="max-w-2xl mx-auto">
             <div className="text-center mb-8">
@@ -412,6 +728,50 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Sheet Picker: only shown for workbooks with several sheets */}
+              {sheetList.length > 1 && (
+                <div className="mb-4">
+                  <SheetPicker sheets={sheetList} value={sheetSelection} onChange={handleSheetSelection} disabled={isInspecting} />
+                </div>
+              )}
+
+              {/* Column Mapping Step */}
+              {fileHeaders.length > 0 && (
+                <div className="mb-8">
+                  <ColumnMappingStep
+                    headers={fileHeaders}
+                    mapping={columnMapping}
+                    detectedMapping={detectedMapping}
+                    onChange={(mapping) => { setColumnMapping(mapping); setUsingSavedMapping(false); }}
+                    usingSavedMapping={usingSavedMapping}
+                    remember={rememberMapping}
+                    onRememberChange={setRememberMapping}
+                  />
+                </div>
+              )}
+              {isInspecting && (
+                <p className="flex items-center justify-center gap-2 text-sm text-slate-500 mb-8">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Detecting columns...
+                </p>
+              )}
+
+              {/* Master List */}
+              <div className="mb-4">
+                <SourceListPicker value={sourceListId} onChange={setSourceListId} disabled={Boolean(sourceFile)} />
+              </div>
+              <div className="mb-4">
+                <SourceFileUpload file={sourceFile} isUploading={isUploadingSource} onSelect={handleSourceFileSelect} />
+              </div>
+              <div className="mb-4">
+                <HistoryWindowPicker value={historyWindowDays} onChange={setHistoryWindowDays} />
+              </div>
+
+              {/* Matching Settings */}
+              <div className="mb-8">
+                <MatchingSettings profile={matchingProfile} onChange={setMatchingProfile} />
+              </div>
+
               {/* Validation Button */}
               <div className="text-center">
                 <button 
@@ -422,8 +782,16 @@ export default function Home() {
                   <Zap className="w-5 h-5" />
                   Start Validation
                 </button>
+                <button 
+                  onClick={handleBackgroundValidation}
+                  disabled={isValidationDisabled}
+                  className="ml-3 inline-flex items-center gap-3 bg-white text-indigo-700 border border-indigo-200 px-6 py-4 rounded-xl font-semibold hover:bg-indigo-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Layers className="w-5 h-5" />
+                  Run in Background
+                </button>
                 <p className="text-sm text-slate-500 mt-3">
-                  Processing typically takes 10-30 seconds
+                  Processing typically takes 10-30 seconds. Use a background job for files over 20,000 rows.
                 </p>
               </div>
             </div>
@@ -440,17 +808,40 @@ export default function Home() {
               <h3 className="text-xl font-semibold text-slate-900 mb-2">Processing Your Data</h3>
               <p className="text-slate-600 mb-6">{status}</p>
               
-              {/* Simple Progress Bar */}
+              {/* Progress Bar: rows processed out of the rows in the file */}
               <div className="w-full bg-slate-200 rounded-full h-2 mb-4">
-                <div className="bg-gradient-to-r from-indigo-500 to-purple-600 h-2 rounded-full transition-all duration-1000" 
-                     style={{ width: '65%' }}>
+                <div className="bg-gradient-to-r from-indigo-500 to-purple-600 h-2 rounded-full transition-all duration-300" 
+                     style={{ width: `${progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }}>
                 </div>
               </div>
               
-              <div className="flex items-center justify-center gap-2 text-sm text-slate-500">
-                <Clock className="w-4 h-4" />
-                <span>This may take a few moments...</span>
-              </div>
+              {progress ? (
+                <div className="space-y-2 mb-6">
+                  <p className="text-sm font-medium text-slate-700">
+                    {progress.processed.toLocaleString()} of {progress.total.toLocaleString()} rows processed
+                  </p>
+                  <div className="flex flex-wrap items-center justify-center gap-3 text-xs">
+                    <span className="text-emerald-700">{progress.counts.valid} Valid</span>
+                    <span className="text-amber-700">{progress.counts.partialMatch} Partial</span>
+                    <span className="text-violet-700">{progress.counts.probableTypo} Probable Typo</span>
+                    <span className="text-blue-700">{progress.counts.needsIdentifier} Needs ID</span>
+                    <span className="text-red-700">{progress.counts.invalid} Invalid</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center gap-2 text-sm text-slate-500 mb-6">
+                  <Clock className="w-4 h-4" />
+                  <span>This may take a few moments...</span>
+                </div>
+              )}
+
+              <button
+                onClick={handleCancelValidation}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 rounded-lg transition-colors"
+              >
+                <StopCircle className="w-4 h-4" />
+                Cancel Validation
+              </button>
             </div>
           </div>
         )}
@@ -466,12 +857,43 @@ export default function Home() {
                     <CheckCircle className="w-5 h-5 text-emerald-600" />
                   </div>
                   <div>
-                    <h3 className="text-xl font-semibold text-slate-900">Validation Complete</h3>
+                    <h3 className="text-xl font-semibold text-slate-900">
+                      {isLoading ? 'Validation in Progress' : wasCancelled ? 'Validation Cancelled' : 'Validation Complete'}
+                    </h3>
                     <div className="flex items-center gap-4 text-sm text-slate-600">
-                      <span className="flex items-center gap-1">
-                        <Clock className="w-4 h-4" />
-                        Processed in {processingTime}s
-                      </span>
+                      {!isLoading && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          {wasCancelled ? `Stopped after ${results.length} rows (${processingTime}s)` : `Processed in ${processingTime}s`}
+                        </span>
+                      )}
+                      {(sourceUsed || sourceListUsed) && (
+                        <span className="flex items-center gap-1">
+                          <Database className="w-4 h-4" />
+                          {sourceUrlUsed ? (sourceFile?.name || sourceUsed) : sourceListUsed?.name ?? sourceUsed}
+                          {snapshotUsed && <span title={`Version ${snapshotUsed.id}`}>(version of {new Date(snapshotUsed.createdAt).toLocaleString()})</span>}
+                          {sourceRecordCount !== null && <span>· {sourceRecordCount.toLocaleString()} records</span>}
+                        </span>
+                      )}
+                      {earlierSubmissions !== null && (
+                        <span className="flex items-center gap-1">
+                          <History className="w-4 h-4" />
+                          {earlierSubmissions.toLocaleString()} already submitted earlier
+                        </span>
+                      )}
+                      {profileUsed && (
+                        <span className="flex items-center gap-1">
+                          <Target className="w-4 h-4" />
+                          {profileUsed.name} ({profileUsed.nameThreshold}% {profileUsed.scorer})
+                        </span>
+                      )}
+                      {ingestionReport && (
+                        <span className="flex items-center gap-1" title={ingestionReport.headerReason}>
+                          <FileText className="w-4 h-4" />
+                          {ingestionReport.sheets ? `${ingestionReport.sheets.length} sheets` : `Header on row ${ingestionReport.headerRowIndex + 1}`}
+                          {ingestionReport.skippedRows > 0 && ` · ${ingestionReport.skippedRows} empty rows skipped`}
+                        </span>
+                      )}
                       {/* REMOVED: Accuracy display from top header */}
                       {/* <span className="flex items-center gap-1">
                         <TrendingUp className="w-4 h-4" />
@@ -505,7 +927,7 @@ export default function Home() {
                 <Download className="w-6 h-6 text-indigo-600" />
                 <h3 className="text-xl font-semibold text-slate-900">Export Results</h3>
               </div>
-              <DownloadButtons data={results} originalFileName={toValidateFile?.name} />
+              <DownloadButtons data={exportRows} originalFileName={toValidateFile?.name ?? resultFileName ?? undefined} />
             </div>
 
             {/* Detailed Results Table */}
@@ -513,15 +935,27 @@ export default function Home() {
               <div className="flex items-center gap-3 mb-6">
                 <FileText className="w-6 h-6 text-indigo-600" />
                 <h3 className="text-xl font-semibold text-slate-900">Detailed Results</h3>
+                {runId && (
+                  <span className="ml-auto text-sm text-slate-500">
+                    {reviewDecisions.size.toLocaleString()} of {results.filter(row => REVIEWABLE_STATUSES.includes(row['Match Status'])).length.toLocaleString()} rows needing review decided
+                  </span>
+                )}
               </div>
+              {reviewError && <p className="mb-4 text-sm text-red-700">{reviewError}</p>}
               <ResultTable 
                 data={results} 
                 responseHeaders={detectedHeaders}
-                onApproveMatch={handleApproveMatch} 
+                renderDetail={renderRowDetail}
+                decisionFor={runId ? decisionFor : undefined}
               />
             </div>
           </div>
         )}
+
+        {/* Background Jobs: queued, running and finished large-file runs */}
+        <div className="mt-8">
+          <JobsList jobs={jobs} error={jobsError} onOpen={handleOpenJob} onCancel={cancelJob} onRerun={rerunJob} onRefresh={refreshJobs} />
+        </div>
       </div>
     </div>
   );
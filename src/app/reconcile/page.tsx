@@ -0,0 +1,246 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { upload } from '@vercel/blob/client';
+import * as XLSX from 'xlsx';
+import { saveAs } from 'file-saver';
+import { Home, GitCompareArrows, Loader2, AlertTriangle, Download, ArrowLeftToLine, ArrowRightToLine, PenLine, Equal } from 'lucide-react';
+import type { Reconciliation, ReconciledRow, ReconciliationStatus } from '@/lib/reconciliation';
+import { type MatchingProfile, DEFAULT_MATCHING_PROFILE } from '@/lib/matchingProfiles';
+import FileUploader from '@/components/FileUploader';
+import MatchingSettings from '@/components/MatchingSettings';
+
+// --- Configuration Constants ---
+const MAX_ROWS_SHOWN = 200;
+
+const statusTabs: { status: ReconciliationStatus; icon: typeof Equal; className: string; }[] = [
+  { status: 'Only in A', icon: ArrowLeftToLine, className: 'bg-amber-100 text-amber-700 border-amber-200' },
+  { status: 'Only in B', icon: ArrowRightToLine, className: 'bg-sky-100 text-sky-700 border-sky-200' },
+  { status: 'Changed', icon: PenLine, className: 'bg-violet-100 text-violet-700 border-violet-200' },
+  { status: 'Identical', icon: Equal, className: 'bg-emerald-100 text-emerald-700 border-emerald-200' },
+];
+
+const statusClasses = Object.fromEntries(statusTabs.map(tab => [tab.status, tab.className])) as Record<ReconciliationStatus, string>;
+
+function describeDifferences(row: ReconciledRow): string {
+  return row.differences.map(difference => `${difference.field}: ${difference.a || '(empty)'} → ${difference.b || '(empty)'}`).join('; ');
+}
+
+function prefixColumns(prefix: string, headers: string[], record: Record<string, unknown> | null): Record<string, unknown> {
+  return Object.fromEntries(headers.map(header => [`${prefix}: ${header}`, record?.[header] ?? '']));
+}
+
+function downloadReconciliation({ rows, summary }: Reconciliation) {
+  // One row per person, with both files' columns side by side, so the sheet can be filtered and sorted.
+  const sheetRows = rows.map(row => ({
+    'Status': row.status,
+    'Paired By': row.pairedBy ?? '',
+    'Name Similarity': row.nameScore ?? '',
+    'Row in A': row.rowA ?? '',
+    'Row in B': row.rowB ?? '',
+    'SSID': row.ssid,
+    'NIN': row.nin,
+    'Name': row.name,
+    'Differences': describeDifferences(row),
+    ...prefixColumns('A', summary.fileA.headers, row.a),
+    ...prefixColumns('B', summary.fileB.headers, row.b),
+  }));
+  const summaryRows = [
+    { 'Item': 'File A', 'Value': `${summary.fileA.name} (${summary.fileA.rows} rows)` },
+    { 'Item': 'File B', 'Value': `${summary.fileB.name} (${summary.fileB.rows} rows)` },
+    { 'Item': 'Only in A', 'Value': summary.onlyInA },
+    { 'Item': 'Only in B', 'Value': summary.onlyInB },
+    { 'Item': 'Changed', 'Value': summary.changed },
+    { 'Item': 'Identical', 'Value': summary.identical },
+    { 'Item': 'Paired by SSID', 'Value': summary.pairedBy.ssid },
+    { 'Item': 'Paired by NIN', 'Value': summary.pairedBy.nin },
+    { 'Item': 'Paired by name', 'Value': summary.pairedBy.name },
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summaryRows), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(sheetRows), 'Reconciliation');
+  const fileBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+
+  const timestamp = new Date().toLocaleDateString('en-CA');
+  saveAs(new Blob([fileBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `Reconciliation_${timestamp}.xlsx`);
+}
+
+// --- Main Page Component ---
+export default function ReconcilePage() {
+  const [fileA, setFileA] = useState<File | null>(null);
+  const [fileB, setFileB] = useState<File | null>(null);
+  const [matchingProfile, setMatchingProfile] = useState<MatchingProfile>(DEFAULT_MATCHING_PROFILE);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [activeStatus, setActiveStatus] = useState<ReconciliationStatus | 'all'>('all');
+  const [status, setStatus] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReconcile = async () => {
+    if (!fileA || !fileB) return;
+    setIsLoading(true);
+    setError(null);
+    setReconciliation(null);
+    try {
+      setStatus('Uploading both files...');
+      const [blobA, blobB] = await Promise.all([fileA, fileB].map(file => upload(`reconcile-${Date.now()}-${file.name}`, file, { access: 'public', handleUploadUrl: '/api/upload' })));
+
+      setStatus('Pairing rows across the files...');
+      const res = await fetch('/api/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileA: blobA.url, fileB: blobB.url, fileNameA: fileA.name, fileNameB: fileB.name, profile: matchingProfile }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not reconcile the files.');
+      setReconciliation(data);
+      setActiveStatus('all');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reconcile the files.');
+    } finally {
+      setStatus('');
+      setIsLoading(false);
+    }
+  };
+
+  const summary = reconciliation?.summary;
+  const counts: Record<ReconciliationStatus, number> = {
+    'Only in A': summary?.onlyInA ?? 0,
+    'Only in B': summary?.onlyInB ?? 0,
+    'Changed': summary?.changed ?? 0,
+    'Identical': summary?.identical ?? 0,
+  };
+  const visibleRows = reconciliation ? reconciliation.rows.filter(row => activeStatus === 'all' || row.status === activeStatus) : [];
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+            <Home size={16} />
+            <span>Return to Home</span>
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-gradient-to-br from-slate-900 to-slate-700 bg-clip-text text-transparent">Reconcile Two Files</h1>
+          <p className="mt-4 text-lg text-slate-600 max-w-2xl mx-auto">Compare two versions of a beneficiary list, such as an LGA and a state submission. Rows are paired by SSID, then NIN, then name, to show what was added, removed or changed. Neither file is treated as the master list.</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md border border-slate-200 space-y-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FileUploader label="File A" onFileSelect={setFileA} file={fileA} />
+            <FileUploader label="File B" onFileSelect={setFileB} file={fileB} />
+          </div>
+          <MatchingSettings profile={matchingProfile} onChange={setMatchingProfile} />
+          <button
+            type="button"
+            onClick={handleReconcile}
+            disabled={!fileA || !fileB || isLoading}
+            className="w-full inline-flex justify-center items-center gap-2 px-6 py-3 text-base font-semibold rounded-lg shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-all duration-300"
+          >
+            {isLoading ? <><Loader2 className="w-5 h-5 animate-spin" /> {status || 'Reconciling...'}</> : <><GitCompareArrows className="w-5 h-5" /> Reconcile Files</>}
+          </button>
+        </div>
+
+        {error && <div className="flex items-center gap-3 p-4 bg-red-100 text-red-800 border-red-200 rounded-lg mb-6"><AlertTriangle className="w-5 h-5 flex-shrink-0" /><p><span className="font-semibold">Error:</span> {error}</p></div>}
+
+        {reconciliation && summary && (
+          <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+            <div className="p-4 border-b border-slate-200 space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-slate-800">
+                    <span className="text-amber-700">A</span> {summary.fileA.name} ({summary.fileA.rows.toLocaleString()} rows) · <span className="text-sky-700">B</span> {summary.fileB.name} ({summary.fileB.rows.toLocaleString()} rows)
+                  </h3>
+                  <p className="text-sm text-slate-500 mt-1">
+                    Paired {summary.pairedBy.ssid.toLocaleString()} by SSID, {summary.pairedBy.nin.toLocaleString()} by NIN and {summary.pairedBy.name.toLocaleString()} by name (at least {summary.matchingProfile.nameThreshold}% similar).
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => downloadReconciliation(reconciliation)}
+                  className="inline-flex justify-center items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Download
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setActiveStatus('all')}
+                  className={`px-3 py-1.5 text-xs font-semibold rounded-md ${activeStatus === 'all' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                >
+                  All ({reconciliation.rows.length.toLocaleString()})
+                </button>
+                {statusTabs.map(({ status: tabStatus, icon: Icon }) => (
+                  <button
+                    key={tabStatus}
+                    type="button"
+                    onClick={() => setActiveStatus(tabStatus)}
+                    className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md ${activeStatus === tabStatus ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                  >
+                    <Icon className="w-3 h-3" />
+                    {tabStatus} ({counts[tabStatus].toLocaleString()})
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <p className="p-6 text-sm text-slate-500 text-center">No rows in this group.</p>
+            ) : (
+              <div className="overflow-x-auto max-h-[40rem] overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-slate-100 text-slate-600 text-xs uppercase tracking-wider sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-semibold">Status</th>
+                      <th className="px-4 py-3 text-left font-semibold">SSID</th>
+                      <th className="px-4 py-3 text-left font-semibold">NIN</th>
+                      <th className="px-4 py-3 text-left font-semibold">Name</th>
+                      <th className="px-4 py-3 text-right font-semibold">Row A</th>
+                      <th className="px-4 py-3 text-right font-semibold">Row B</th>
+                      <th className="px-4 py-3 text-left font-semibold">Differences</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {visibleRows.slice(0, MAX_ROWS_SHOWN).map((row, index) => (
+                      <tr key={index} className="hover:bg-slate-50 align-top">
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium border whitespace-nowrap ${statusClasses[row.status]}`}>{row.status}</span>
+                          {row.pairedBy && (
+                            <p className="text-xs text-slate-400 mt-1 whitespace-nowrap">by {row.pairedBy}{row.nameScore !== null && ` (${row.nameScore}%)`}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-slate-900">{row.ssid || '—'}</td>
+                        <td className="px-4 py-3 font-mono text-slate-900">{row.nin || '—'}</td>
+                        <td className="px-4 py-3 text-slate-900">{row.name || '—'}</td>
+                        <td className="px-4 py-3 text-right text-slate-600">{row.rowA ?? '—'}</td>
+                        <td className="px-4 py-3 text-right text-slate-600">{row.rowB ?? '—'}</td>
+                        <td className="px-4 py-3">
+                          {row.differences.map(difference => (
+                            <p key={difference.field} className="text-xs text-slate-600">
+                              <span className="font-medium">{difference.field}:</span>{' '}
+                              <span className="line-through text-red-600">{difference.a || '(empty)'}</span>{' → '}
+                              <span className="text-emerald-700">{difference.b || '(empty)'}</span>
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {visibleRows.length > MAX_ROWS_SHOWN && (
+              <p className="p-3 text-xs text-slate-500 border-t border-slate-200">Showing the first {MAX_ROWS_SHOWN} of {visibleRows.length.toLocaleString()}; download the report for the rest.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import * as XLSX from 'xlsx';
+import { saveAs } from 'file-saver';
+import { Home, HeartPulse, Loader2, AlertTriangle, AlertCircle, CheckCircle2, Download, RefreshCw, DatabaseZap } from 'lucide-react';
+import type { HealthIssueKind, SourceHealthAnalysis } from '@/lib/sourceHealth';
+import type { SourceListSummary } from '@/lib/sourceLists';
+import type { SourceSnapshot } from '@/lib/snapshots';
+import SourceListPicker from '@/components/SourceListPicker';
+
+// --- Type Definitions ---
+type SourceHealthReport = SourceHealthAnalysis & { list: SourceListSummary | null; snapshot: SourceSnapshot | null; generatedAt: string; };
+
+// --- Configuration Constants ---
+const MAX_ROWS_SHOWN = 300;
+
+const issueLabels: Record<HealthIssueKind, string> = {
+  duplicate_ssid: 'Duplicate SSID',
+  duplicate_nin: 'Duplicate NIN',
+  nin_name_conflict: 'NIN shared by different names',
+  missing_name: 'Missing name',
+  missing_identifier: 'Missing identifier',
+  malformed_ssid: 'Malformed SSID',
+  malformed_nin: 'Malformed NIN',
+  near_duplicate: 'Possible duplicate person',
+};
+
+function downloadReport(report: SourceHealthReport) {
+  // One row per record named in a finding, so the sheet can be filtered and sorted.
+  const rows = report.findings.flatMap(finding => finding.records.map(record => ({
+    'Issue': issueLabels[finding.kind],
+    'Severity': finding.severity,
+    'Value': finding.value,
+    'Detail': finding.detail,
+    'Record #': record.position,
+    'SSID': record.ssid,
+    'NIN': record.nin,
+    'Name': record.name,
+  })));
+  const summary = (Object.keys(issueLabels) as HealthIssueKind[]).map(kind => ({ 'Issue': issueLabels[kind], 'Findings': report.counts[kind] }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Findings');
+  const fileBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+
+  const listName = (report.list?.name || 'Master_List').replace(/[^A-Za-z0-9]+/g, '_');
+  const timestamp = new Date().toLocaleDateString('en-CA');
+  saveAs(new Blob([fileBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${listName}_Health_${timestamp}.xlsx`);
+}
+
+// --- Main Page Component ---
+export default function SourceHealthPage() {
+  const [listId, setListId] = useState<string | null>(null);
+  const [report, setReport] = useState<SourceHealthReport | null>(null);
+  const [kindFilter, setKindFilter] = useState<HealthIssueKind | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = listId ? `?list=${encodeURIComponent(listId)}` : '';
+      const res = await fetch(`/api/source/health${query}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not analyse the master list.');
+      setReport(data);
+      setKindFilter('all');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not analyse the master list.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    runReport();
+  }, [runReport]);
+
+  // Reloads the list from its source before checking, for when it changed within the cache period.
+  const handleReload = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/source/refresh', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ list: listId }) });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not reload the master list.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reload the master list.');
+      setIsLoading(false);
+      return;
+    }
+    await runReport();
+  };
+
+  const visibleFindings = report ? report.findings.filter(finding => kindFilter === 'all' || finding.kind === kindFilter) : [];
+  const totalFindings = report ? Object.values(report.counts).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+            <Home size={16} />
+            <span>Return to Home</span>
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-gradient-to-br from-slate-900 to-slate-700 bg-clip-text text-transparent">Master List Health</h1>
+          <p className="mt-4 text-lg text-slate-600 max-w-2xl mx-auto">Duplicate and conflicting identifiers, incomplete records and possible duplicate people in the master list.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
+          {/* --- Summary Column --- */}
+          <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-md border border-slate-200 space-y-4">
+            <SourceListPicker value={listId} onChange={setListId} disabled={isLoading} />
+
+            {report && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <HeartPulse className="w-4 h-4 text-indigo-600" />
+                  <h2 className="text-sm font-semibold text-slate-800">
+                    {report.recordCount.toLocaleString()} records · {totalFindings.toLocaleString()} findings
+                  </h2>
+                </div>
+                <p className="text-xs text-slate-500 mb-3">
+                  Checked {new Date(report.generatedAt).toLocaleString()}
+                  {report.snapshot && ` against the version of ${new Date(report.snapshot.createdAt).toLocaleString()}`}.
+                  {report.ssidFormat && <> SSID format: <span className="font-mono">{report.ssidFormat}</span>.</>}
+                </p>
+                <ul className="space-y-1">
+                  {(Object.keys(issueLabels) as HealthIssueKind[]).map(kind => (
+                    <li key={kind}>
+                      <button
+                        type="button"
+                        onClick={() => setKindFilter(kindFilter === kind ? 'all' : kind)}
+                        className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${kindFilter === kind ? 'bg-indigo-50 text-indigo-800' : 'hover:bg-slate-50 text-slate-700'}`}
+                      >
+                        <span className="flex items-center gap-2">
+                          {report.counts[kind] === 0 ? <CheckCircle2 className="w-4 h-4 text-emerald-600" /> : <AlertCircle className="w-4 h-4 text-amber-600" />}
+                          {issueLabels[kind]}
+                        </span>
+                        <span className="font-semibold">{report.counts[kind].toLocaleString()}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={runReport}
+                disabled={isLoading}
+                className="flex-1 inline-flex justify-center items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 transition-colors"
+              >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                {isLoading ? 'Analysing...' : 'Re-check'}
+              </button>
+              <button
+                type="button"
+                onClick={() => report && downloadReport(report)}
+                disabled={!report || totalFindings === 0}
+                className="flex-1 inline-flex justify-center items-center gap-2 px-4 py-2.5 text-sm font-semibold rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={handleReload}
+              disabled={isLoading}
+              className="w-full inline-flex justify-center items-center gap-2 text-xs font-medium text-slate-500 hover:text-slate-800 disabled:opacity-50"
+            >
+              <DatabaseZap className="w-3 h-3" />
+              Reload the list from its source, then re-check
+            </button>
+          </div>
+
+          {/* --- Findings Column --- */}
+          <div className="lg:col-span-3">
+            {error && <div className="flex items-center gap-3 p-4 bg-red-100 text-red-800 border-red-200 rounded-lg mb-6"><AlertTriangle className="w-5 h-5 flex-shrink-0" /><p><span className="font-semibold">Error:</span> {error}</p></div>}
+
+            {report && (
+              <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+                <div className="p-4 border-b border-slate-200">
+                  <h3 className="text-lg font-semibold text-slate-800">
+                    {kindFilter === 'all' ? 'All Findings' : issueLabels[kindFilter]} <span className="text-base font-normal text-slate-500">({visibleFindings.length.toLocaleString()})</span>
+                  </h3>
+                  {report.truncated && <p className="text-xs text-amber-700 mt-1">Some kinds have too many findings to list; the counts are complete.</p>}
+                </div>
+                {visibleFindings.length === 0 ? (
+                  <p className="p-6 text-sm text-slate-500 text-center">No problems found.</p>
+                ) : (
+                  <ul className="divide-y divide-slate-100 text-sm max-h-[40rem] overflow-y-auto">
+                    {visibleFindings.slice(0, MAX_ROWS_SHOWN).map((finding, index) => (
+                      <li key={index} className="p-3">
+                        <div className="flex items-center gap-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${finding.severity === 'error' ? 'bg-red-100 text-red-700 border-red-200' : 'bg-amber-100 text-amber-700 border-amber-200'}`}>
+                            {issueLabels[finding.kind]}
+                          </span>
+                          <span className="font-mono text-slate-900 truncate">{finding.value || '—'}</span>
+                        </div>
+                        <p className="text-xs text-slate-600 mt-1">{finding.detail}</p>
+                        <p className="text-xs text-slate-400 mt-1">
+                          {finding.records.map(record => `#${record.position} ${record.name || 'N/A'} (SSID: ${record.ssid || 'N/A'}, NIN: ${record.nin || 'N/A'})`).join(' · ')}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {visibleFindings.length > MAX_ROWS_SHOWN && (
+                  <p className="p-3 text-xs text-slate-500 border-t border-slate-200">Showing the first {MAX_ROWS_SHOWN}; download the report for the rest.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Home, History, GitCompare, Loader2, AlertTriangle, Plus, Minus, PenLine } from 'lucide-react';
+import type { Entry } from '@/lib/fields';
+import type { SnapshotDiff, SourceSnapshot } from '@/lib/snapshots';
+import SourceListPicker from '@/components/SourceListPicker';
+import { useSourceLists } from '@/hooks/useSourceLists';
+
+// --- Type Definitions ---
+type DiffTab = 'added' | 'removed' | 'changed';
+
+// --- Configuration Constants ---
+const MAX_ROWS_SHOWN = 200;
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function recordSummary(record: Entry): string {
+  return Object.entries(record).slice(0, 4).map(([key, value]) => `${key}: ${value}`).join(' · ');
+}
+
+// --- Main Page Component ---
+export default function SourceVersionsPage() {
+  const { defaultId } = useSourceLists();
+  const [listId, setListId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<SourceSnapshot[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [activeTab, setActiveTab] = useState<DiffTab>('changed');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Versions of the chosen list; the two newest are preselected for comparison.
+  const selectedListId = listId ?? defaultId;
+  useEffect(() => {
+    if (!selectedListId) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch(`/api/source/snapshots?list=${encodeURIComponent(selectedListId)}`, { cache: 'no-store' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || 'Could not load versions.');
+        if (!active) return;
+        const loaded: SourceSnapshot[] = data.snapshots;
+        setSnapshots(loaded);
+        setToId(loaded[0]?.id ?? null);
+        setFromId(loaded[1]?.id ?? null);
+        setDiff(null);
+        setError(null);
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : 'Could not load versions.');
+      }
+    })();
+    return () => { active = false; };
+  }, [selectedListId]);
+
+  const handleCompare = async () => {
+    if (!fromId || !toId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/source/snapshots/compare?from=${fromId}&to=${toId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Could not compare versions.');
+      setDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not compare versions.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const tabCounts: Record<DiffTab, number> = {
+    added: diff?.added.length ?? 0,
+    removed: diff?.removed.length ?? 0,
+    changed: diff?.changed.length ?? 0,
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 font-sans">
+      <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 transition-colors">
+            <Home size={16} />
+            <span>Return to Home</span>
+          </Link>
+        </div>
+
+        <div className="text-center mb-12">
+          <h1 className="text-4xl sm:text-5xl font-bold tracking-tight bg-gradient-to-br from-slate-900 to-slate-700 bg-clip-text text-transparent">Master List Versions</h1>
+          <p className="mt-4 text-lg text-slate-600 max-w-2xl mx-auto">Every change to a master list is saved as a version. Compare two versions to see which records were added, removed or changed.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 items-start">
+          {/* --- Version List Column --- */}
+          <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-md border border-slate-200 space-y-4">
+            <SourceListPicker value={listId} onChange={setListId} />
+
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <History className="w-4 h-4 text-indigo-600" />
+                <h2 className="text-sm font-semibold text-slate-800">Versions</h2>
+              </div>
+              {snapshots.length === 0 ? (
+                <p className="text-sm text-slate-500">No versions saved yet. A version is saved the first time the list is loaded, and again whenever its content changes.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500">
+                      <th className="py-1 font-medium">From</th>
+                      <th className="py-1 font-medium">To</th>
+                      <th className="py-1 font-medium">Saved</th>
+                      <th className="py-1 font-medium text-right">Records</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {snapshots.map(snapshot => (
+                      <tr key={snapshot.id} title={`Version ${snapshot.id}\nChecksum ${snapshot.checksum}\n${snapshot.origin}`}>
+                        <td className="py-2"><input type="radio" name="from" checked={fromId === snapshot.id} onChange={() => setFromId(snapshot.id)} /></td>
+                        <td className="py-2"><input type="radio" name="to" checked={toId === snapshot.id} onChange={() => setToId(snapshot.id)} /></td>
+                        <td className="py-2 text-slate-700">
+                          {formatDate(snapshot.createdAt)}
+                          <span className="block font-mono text-xs text-slate-400">{snapshot.checksum.slice(0, 12)}</span>
+                        </td>
+                        <td className="py-2 text-right text-slate-700">{snapshot.recordCount.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={!fromId || !toId || fromId === toId || isLoading}
+              className="w-full inline-flex justify-center items-center gap-2 px-6 py-3 text-base font-semibold rounded-lg shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-all duration-300"
+            >
+              {isLoading ? <><Loader2 className="w-5 h-5 animate-spin" /> Comparing...</> : <><GitCompare className="w-5 h-5" /> Compare Versions</>}
+            </button>
+          </div>
+
+          {/* --- Diff Column --- */}
+          <div className="lg:col-span-3">
+            {error && <div className="flex items-center gap-3 p-4 bg-red-100 text-red-800 border-red-200 rounded-lg mb-6"><AlertTriangle className="w-5 h-5 flex-shrink-0" /><p><span className="font-semibold">Error:</span> {error}</p></div>}
+
+            {diff && (
+              <div className="bg-white rounded-xl shadow-md border border-slate-200 overflow-hidden">
+                <div className="p-4 border-b border-slate-200">
+                  <h3 className="text-lg font-semibold text-slate-800">{formatDate(diff.from.createdAt)} → {formatDate(diff.to.createdAt)}</h3>
+                  <p className="text-sm text-slate-500 mt-1">
+                    {diff.unchanged.toLocaleString()} records unchanged.
+                    {(diff.withoutSsid.from > 0 || diff.withoutSsid.to > 0) && ` ${diff.withoutSsid.from} / ${diff.withoutSsid.to} records without an SSID could not be compared.`}
+                  </p>
+                  <div className="flex gap-2 mt-3">
+                    {([['added', Plus], ['removed', Minus], ['changed', PenLine]] as const).map(([tab, Icon]) => (
+                      <button
+                        key={tab}
+                        type="button"
+                        onClick={() => setActiveTab(tab)}
+                        className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md capitalize ${activeTab === tab ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                      >
+                        <Icon className="w-3 h-3" />
+                        {tab} ({tabCounts[tab].toLocaleString()})
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <ul className="divide-y divide-slate-100 text-sm max-h-[36rem] overflow-y-auto">
+                  {activeTab === 'changed'
+                    ? diff.changed.slice(0, MAX_ROWS_SHOWN).map(change => (
+                        <li key={change.ssid} className="p-3">
+                          <p className="font-mono font-medium text-slate-900">{change.ssid}</p>
+                          {change.fields.map(field => (
+                            <p key={field} className="text-xs text-slate-600 mt-1">
+                              <span className="font-medium">{field}:</span>{' '}
+                              <span className="line-through text-red-600">{String(change.before[field] ?? '')}</span>{' → '}
+                              <span className="text-emerald-700">{String(change.after[field] ?? '')}</span>
+                            </p>
+                          ))}
+                        </li>
+                      ))
+                    : diff[activeTab].slice(0, MAX_ROWS_SHOWN).map((record, index) => (
+                        <li key={index} className="p-3 text-xs text-slate-700">{recordSummary(record)}</li>
+                      ))}
+                </ul>
+                {tabCounts[activeTab] > MAX_ROWS_SHOWN && (
+                  <p className="p-3 text-xs text-slate-500 border-t border-slate-200">Showing the first {MAX_ROWS_SHOWN} of {tabCounts[activeTab].toLocaleString()}.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
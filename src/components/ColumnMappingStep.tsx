@@ -0,0 +1,100 @@
+'use client';
+
+import { Columns3, AlertTriangle, RotateCcw, Bookmark } from 'lucide-react';
+import type { ColumnMapping, ColumnRole } from '@/lib/fields';
+
+type Props = {
+  headers: string[];
+  mapping: ColumnMapping;
+  detectedMapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  usingSavedMapping: boolean;
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
+};
+
+const roles: { role: ColumnRole; label: string; hint: string; }[] = [
+  { role: 'ssid', label: 'SSID', hint: 'Social security ID' },
+  { role: 'nin', label: 'NIN', hint: 'National identification number' },
+  { role: 'fullName', label: 'Full Name', hint: 'Used instead of the name parts when set' },
+  { role: 'firstName', label: 'First Name', hint: 'Combined when no full name column' },
+  { role: 'middleName', label: 'Middle Name', hint: 'Combined when no full name column' },
+  { role: 'lastName', label: 'Last Name', hint: 'Combined when no full name column' },
+  { role: 'dob', label: 'Date of Birth', hint: 'Compared when the matching profile includes it' },
+  { role: 'phone', label: 'Phone', hint: 'Compared when the matching profile includes it' },
+  { role: 'accountNumber', label: 'Account Number', hint: 'Compared when the matching profile includes it' },
+  { role: 'bvn', label: 'BVN', hint: 'Compared when the matching profile includes it' },
+];
+
+export default function ColumnMappingStep({ headers, mapping, detectedMapping, onChange, usingSavedMapping, remember, onRememberChange }: Props) {
+  const hasIdentifier = Boolean(mapping.ssid || mapping.nin);
+  const hasName = Boolean(mapping.fullName || mapping.firstName || mapping.lastName);
+
+  const handleSelect = (role: ColumnRole, header: string) => {
+    const next = { ...mapping };
+    if (header) next[role] = header;
+    else delete next[role];
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Columns3 className="w-5 h-5 text-indigo-600" />
+          <h4 className="font-semibold text-slate-900">Column Mapping</h4>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(detectedMapping)}
+          className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-800"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset to detected
+        </button>
+      </div>
+
+      {usingSavedMapping && (
+        <p className="flex items-center gap-2 text-xs text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg p-2 mb-4">
+          <Bookmark className="w-4 h-4 flex-shrink-0" />
+          Using your saved mapping for files with these headers.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {roles.map(({ role, label, hint }) => (
+          <div key={role}>
+            <label htmlFor={`mapping-${role}`} className="block text-sm font-medium text-slate-700">{label}</label>
+            <select
+              id={`mapping-${role}`}
+              value={mapping[role] || ''}
+              onChange={(e) => handleSelect(role, e.target.value)}
+              className="mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">— Not mapped —</option>
+              {headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {(!hasIdentifier || !hasName) && (
+        <div className="mt-4 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+          <p className="text-xs text-amber-700">
+            {!hasIdentifier && 'Map an SSID or NIN column, or every row will be reported as missing identifiers. '}
+            {!hasName && 'Map a name column, or every row will be reported as missing a name.'}
+          </p>
+        </div>
+      )}
+
+      <label className="mt-4 flex items-center gap-2 text-sm text-slate-600">
+        <input type="checkbox" checked={remember} onChange={(e) => onRememberChange(e.target.checked)} className="rounded border-slate-300" />
+        Remember this mapping for files with the same headers
+      </label>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import {
   CheckCircle2,
   AlertTriangle,
   XCircle,
+  SpellCheck,
+  UserSearch,
   Database,
   Calendar,
   Settings,
@@ -23,7 +25,7 @@ type Props = {
   originalFileName?: string;
 };
 
-const filters = ['All', 'Valid', 'Partial Match', 'Invalid'] as const;
+const filters = ['All', 'Valid', 'Partial Match', 'Probable Typo', 'Needs Identifier', 'Invalid'] as const;
 type Filter = typeof filters[number];
 
 export default function DownloadButtons({ data, originalFileName }: Props) {
@@ -41,6 +43,10 @@ export default function DownloadButtons({ data, originalFileName }: Props) {
         return <CheckCircle2 className="w-4 h-4" />;
       case 'Partial Match':
         return <AlertTriangle className="w-4 h-4" />;
+      case 'Probable Typo':
+        return <SpellCheck className="w-4 h-4" />;
+      case 'Needs Identifier':
+        return <UserSearch className="w-4 h-4" />;
       case 'Invalid':
         return <XCircle className="w-4 h-4" />;
     }
@@ -54,6 +60,10 @@ export default function DownloadButtons({ data, originalFileName }: Props) {
         return 'from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700';
       case 'Partial Match':
         return 'from-amber-500 to-amber-600 hover:from-amber-600 hover:to-amber-700';
+      case 'Probable Typo':
+        return 'from-violet-500 to-violet-600 hover:from-violet-600 hover:to-violet-700';
+      case 'Needs Identifier':
+        return 'from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700';
       case 'Invalid':
         return 'from-red-500 to-red-600 hover:from-red-600 hover:to-red-700';
     }
@@ -93,7 +103,7 @@ export default function DownloadButtons({ data, originalFileName }: Props) {
         : 'Validation_Results';
       
       const timestamp = new Date().toLocaleDateString('en-CA');
-      const marker = filter.replace(' ', '_');
+      const marker = filter.replace(/ /g, '_');
 
       const fileName = `${baseName}_Validated_${marker}_${timestamp}.${fileType}`;
       
@@ -185,7 +195,7 @@ export default function DownloadButtons({ data, originalFileName }: Props) {
 
       {/* Download Options */}
       {/* This grid is already responsive, stacking to 1 column on mobile, so no changes needed! */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {filters.map((filter) => {
           const count = getFilterCount(filter);
           const isLoading = isDownloading === filter;
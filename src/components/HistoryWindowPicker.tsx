@@ -0,0 +1,45 @@
+'use client';
+
+import { History } from 'lucide-react';
+
+type Props = {
+  /** Days of earlier runs to check against; 0 turns the check off. */
+  value: number;
+  onChange: (days: number) => void;
+  disabled?: boolean;
+};
+
+const windowOptions = [
+  { days: 0, label: 'Off' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 180, label: 'Last 180 days' },
+  { days: 365, label: 'Last year' },
+];
+
+export const DEFAULT_HISTORY_WINDOW_DAYS = 90;
+
+export default function HistoryWindowPicker({ value, onChange, disabled }: Props) {
+  return (
+    <div className="border border-slate-200 rounded-xl p-4">
+      <label htmlFor="history-window" className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+        <History className="w-4 h-4 text-indigo-600" />
+        Earlier Submissions
+      </label>
+      <select
+        id="history-window"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full p-2 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-50"
+      >
+        {windowOptions.map(option => (
+          <option key={option.days} value={option.days}>{option.label}</option>
+        ))}
+      </select>
+      <p className="text-xs text-slate-500 mt-1">
+        Rows already validated or approved in an earlier batch are flagged in the Earlier Submission column, with a link to that session; their match status is unchanged. Re-running the same upload is not counted.
+      </p>
+    </div>
+  );
+}
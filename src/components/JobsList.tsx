@@ -0,0 +1,128 @@
+'use client';
+
+import { Layers, Loader2, CheckCircle, XCircle, Clock, StopCircle, FolderOpen, RefreshCw, RotateCcw } from 'lucide-react';
+import type { JobListing } from '@/hooks/useValidationJobs';
+
+type Props = {
+  jobs: JobListing[];
+  error: string | null;
+  onOpen: (job: JobListing) => void;
+  onCancel: (id: string) => void;
+  onRerun: (id: string) => void;
+  onRefresh: () => void;
+};
+
+const statusStyles: Record<JobListing['status'], string> = {
+  queued: 'bg-slate-100 text-slate-700 border-slate-200',
+  running: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  completed: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  cancelled: 'bg-amber-100 text-amber-700 border-amber-200',
+};
+
+function StatusIcon({ status }: { status: JobListing['status']; }) {
+  switch (status) {
+    case 'queued': return <Clock className="w-4 h-4" />;
+    case 'running': return <Loader2 className="w-4 h-4 animate-spin" />;
+    case 'completed': return <CheckCircle className="w-4 h-4" />;
+    case 'failed': return <XCircle className="w-4 h-4" />;
+    case 'cancelled': return <StopCircle className="w-4 h-4" />;
+  }
+}
+
+export default function JobsList({ jobs, error, onOpen, onCancel, onRerun, onRefresh }: Props) {
+  if (jobs.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Layers className="w-6 h-6 text-indigo-600" />
+          <h3 className="text-xl font-semibold text-slate-900">Background Jobs</h3>
+        </div>
+        <button
+          type="button"
+          onClick={onRefresh}
+          className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-800"
+        >
+          <RefreshCw className="w-3 h-3" />
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <ul className="divide-y divide-slate-100">
+        {jobs.map(job => {
+          const percent = job.progress && job.progress.total > 0 ? Math.round((job.progress.processed / job.progress.total) * 100) : 0;
+          const active = job.status === 'queued' || job.status === 'running';
+          return (
+            <li key={job.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${statusStyles[job.status]}`}>
+                    <StatusIcon status={job.status} />
+                    {job.status}
+                  </span>
+                  <span className="text-sm font-medium text-slate-900 truncate">{job.fileName}</span>
+                  <span className="text-xs text-slate-500">{new Date(job.createdAt).toLocaleString()}</span>
+                  {job.summary?.snapshot && (
+                    <span className="text-xs text-slate-500" title={`Version ${job.summary.snapshot.id}`}>
+                      · {job.summary.snapshot.list.name}, version of {new Date(job.summary.snapshot.createdAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                {job.progress && (
+                  <div className="mt-2">
+                    <div className="w-full bg-slate-200 rounded-full h-1.5">
+                      <div className="bg-gradient-to-r from-indigo-500 to-purple-600 h-1.5 rounded-full transition-all duration-300" style={{ width: `${percent}%` }} />
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {job.progress.processed.toLocaleString()} / {job.progress.total.toLocaleString()} rows ·{' '}
+                      {job.progress.counts.valid} valid · {job.progress.counts.partialMatch} partial · {job.progress.counts.probableTypo} probable typo ·{' '}
+                      {job.progress.counts.needsIdentifier} needs ID · {job.progress.counts.invalid} invalid
+                    </p>
+                  </div>
+                )}
+                {job.error && <p className="text-xs text-red-600 mt-1">{job.error}</p>}
+              </div>
+              <div className="flex gap-2">
+                {active && (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(job.id)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 rounded-lg"
+                  >
+                    <StopCircle className="w-3 h-3" />
+                    Cancel
+                  </button>
+                )}
+                {job.status === 'completed' && (
+                  <button
+                    type="button"
+                    onClick={() => onRerun(job.id)}
+                    title="Validate the same file again against the same master list version"
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Re-run
+                  </button>
+                )}
+                {(job.status === 'completed' || (job.status === 'cancelled' && (job.progress?.processed ?? 0) > 0)) && (
+                  <button
+                    type="button"
+                    onClick={() => onOpen(job)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg"
+                  >
+                    <FolderOpen className="w-3 h-3" />
+                    Open Results
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
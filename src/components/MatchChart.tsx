@@ -8,11 +8,11 @@ import {
   Tooltip,
   Legend
 } from 'chart.js';
-import { CheckCircle2, AlertTriangle, XCircle, TrendingUp, BarChart3 } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, XCircle, SpellCheck, UserSearch, TrendingUp, BarChart3 } from 'lucide-react';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
 
-type MatchStatus = 'Valid' | 'Partial Match' | 'Invalid';
+type MatchStatus = 'Valid' | 'Partial Match' | 'Probable Typo' | 'Needs Identifier' | 'Invalid';
 
 type Props = {
   data: { [key: string]: any }[];
@@ -23,6 +23,8 @@ export default function MatchChart({ data }: Props) {
     const counts: Record<MatchStatus, number> = {
       Valid: 0,
       'Partial Match': 0,
+      'Probable Typo': 0,
+      'Needs Identifier': 0,
       Invalid: 0
     };
 
@@ -34,37 +36,48 @@ export default function MatchChart({ data }: Props) {
     });
 
     const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    // Every status other than Valid and Invalid waits on a reviewer
+    const needReview = counts['Partial Match'] + counts['Probable Typo'] + counts['Needs Identifier'];
     
     return {
       counts,
       total,
+      needReview: total > 0 ? ((needReview / total) * 100).toFixed(2) : '0.00',
       percentages: {
         Valid: total > 0 ? ((counts.Valid / total) * 100).toFixed(2) : '0.00',
         'Partial Match': total > 0 ? ((counts['Partial Match'] / total) * 100).toFixed(2) : '0.00',
+        'Probable Typo': total > 0 ? ((counts['Probable Typo'] / total) * 100).toFixed(2) : '0.00',
+        'Needs Identifier': total > 0 ? ((counts['Needs Identifier'] / total) * 100).toFixed(2) : '0.00',
         Invalid: total > 0 ? ((counts.Invalid / total) * 100).toFixed(2) : '0.00'
       }
     };
   }, [data]);
 
   const chartData = {
-    labels: ['Valid', 'Partial Match', 'Invalid'],
+    labels: ['Valid', 'Partial Match', 'Probable Typo', 'Needs Identifier', 'Invalid'],
     datasets: [
       {
-        data: [stats.counts.Valid, stats.counts['Partial Match'], stats.counts.Invalid],
+        data: [stats.counts.Valid, stats.counts['Partial Match'], stats.counts['Probable Typo'], stats.counts['Needs Identifier'], stats.counts.Invalid],
         backgroundColor: [
           'rgba(16, 185, 129, 0.8)',   // emerald-500
           'rgba(245, 158, 11, 0.8)',   // amber-500
+          'rgba(139, 92, 246, 0.8)',   // violet-500
+          'rgba(59, 130, 246, 0.8)',   // blue-500
           'rgba(239, 68, 68, 0.8)'     // red-500
         ],
         borderColor: [
           'rgb(16, 185, 129)',         // emerald-500
           'rgb(245, 158, 11)',         // amber-500
+          'rgb(139, 92, 246)',         // violet-500
+          'rgb(59, 130, 246)',         // blue-500
           'rgb(239, 68, 68)'           // red-500
         ],
         borderWidth: 2,
         hoverBackgroundColor: [
           'rgba(16, 185, 129, 0.9)',
           'rgba(245, 158, 11, 0.9)',
+          'rgba(139, 92, 246, 0.9)',
+          'rgba(59, 130, 246, 0.9)',
           'rgba(239, 68, 68, 0.9)'
         ],
         hoverBorderWidth: 3,
@@ -118,6 +131,10 @@ export default function MatchChart({ data }: Props) {
         return <CheckCircle2 className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-500" />;
       case 'Partial Match':
         return <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 text-amber-500" />;
+      case 'Probable Typo':
+        return <SpellCheck className="w-4 h-4 sm:w-5 sm:h-5 text-violet-500" />;
+      case 'Needs Identifier':
+        return <UserSearch className="w-4 h-4 sm:w-5 sm:h-5 text-blue-500" />;
       case 'Invalid':
         return <XCircle className="w-4 h-4 sm:w-5 sm:h-5 text-red-500" />;
     }
@@ -129,6 +146,10 @@ export default function MatchChart({ data }: Props) {
         return 'from-emerald-500 to-emerald-600';
       case 'Partial Match':
         return 'from-amber-500 to-amber-600';
+      case 'Probable Typo':
+        return 'from-violet-500 to-violet-600';
+      case 'Needs Identifier':
+        return 'from-blue-500 to-blue-600';
       case 'Invalid':
         return 'from-red-500 to-red-600';
     }
@@ -140,6 +161,10 @@ export default function MatchChart({ data }: Props) {
         return 'bg-emerald-50 border-emerald-200';
       case 'Partial Match':
         return 'bg-amber-50 border-amber-200';
+      case 'Probable Typo':
+        return 'bg-violet-50 border-violet-200';
+      case 'Needs Identifier':
+        return 'bg-blue-50 border-blue-200';
       case 'Invalid':
         return 'bg-red-50 border-red-200';
     }
@@ -261,7 +286,7 @@ export default function MatchChart({ data }: Props) {
             </div>
             <div className="text-center p-3 sm:p-4 bg-gradient-to-br from-slate-50 to-slate-100 rounded-lg sm:rounded-xl">
               <div className="text-base sm:text-lg font-bold text-amber-600">
-                {stats.percentages['Partial Match']}%
+                {stats.needReview}%
               </div>
               <div className="text-xs sm:text-sm text-slate-600">Need Review</div>
             </div>
@@ -280,5 +305,5 @@ export default function MatchChart({ data }: Props) {
 
 // Type guard to validate status key
 function isMatchStatus(value: any): value is MatchStatus {
-  return value === 'Valid' || value === 'Partial Match' || value === 'Invalid';
+  return value === 'Valid' || value === 'Partial Match' || value === 'Probable Typo' || value === 'Needs Identifier' || value === 'Invalid';
 }
\ No newline at end of file
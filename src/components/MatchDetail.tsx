@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2, AlertTriangle, CheckCircle2, ExternalLink, Users } from 'lucide-react';
+import type { ColumnMapping, Entry } from '@/lib/fields';
+import type { FieldAgreement, MatchExplanation } from '@/lib/matchExplanation';
+import type { MatchingProfile } from '@/lib/matchingProfiles';
+import type { NameTokenStatus } from '@/lib/nameNormalizer';
+
+/** The settings of the run a row came from, so the detail re-matches it the same way. */
+export type MatchDetailContext = {
+  columnMapping?: ColumnMapping;
+  profile?: MatchingProfile | null;
+  sourceList?: string | null;
+  snapshot?: string | null;
+  /** An uploaded source the run used instead of a master list. */
+  sourceUrl?: string | null;
+};
+
+type Props = {
+  row: Entry;
+  context: MatchDetailContext;
+};
+
+const agreementClasses: Record<FieldAgreement, string> = {
+  'Match': 'bg-emerald-50 text-emerald-800',
+  'Mismatch': 'bg-red-50 text-red-800',
+  'Missing': 'bg-amber-50 text-amber-800',
+  'Not Compared': 'text-slate-500',
+};
+
+const tokenClasses: Record<NameTokenStatus, string> = {
+  match: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  variant: 'bg-teal-100 text-teal-800 border-teal-200',
+  initial: 'bg-sky-100 text-sky-800 border-sky-200',
+  misspelled: 'bg-amber-100 text-amber-800 border-amber-200',
+  title: 'bg-slate-100 text-slate-500 border-slate-200 line-through',
+  extra: 'bg-red-100 text-red-800 border-red-200',
+  missing: 'bg-white text-red-700 border-red-300 border-dashed',
+};
+
+const tokenLabels: Record<NameTokenStatus, string> = {
+  match: 'Same word',
+  variant: 'Same after folding accents or spelling variants',
+  initial: 'Initial of the other word',
+  misspelled: 'Close misspelling',
+  title: 'Title, ignored by matching',
+  extra: 'Only in the submitted name',
+  missing: 'Only in the master list name',
+};
+
+function RecordColumn({ title, record }: { title: string; record: Entry | null; }) {
+  return (
+    <div className="min-w-0">
+      <h5 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">{title}</h5>
+      {record ? (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs">
+          {Object.entries(record).map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="text-slate-500 truncate">{key}</dt>
+              <dd className="text-slate-900 font-mono truncate">{value === null || value === undefined || value === '' ? '—' : String(value)}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-xs text-slate-500">No master list record was matched.</p>
+      )}
+    </div>
+  );
+}
+
+// --- Main Component ---
+// Fetches and shows why one result row got its verdict.
+export default function MatchDetail({ row, context }: Props) {
+  const [detail, setDetail] = useState<MatchExplanation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch('/api/explain', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ row, ...context }),
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || 'Could not explain this row.');
+        setDetail(data);
+      } catch (err) {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Could not explain this row.');
+      }
+    })();
+    return () => controller.abort();
+  }, [row, context]);
+
+  if (error) return <div className="flex items-center gap-2 text-sm text-red-700"><AlertTriangle className="w-4 h-4" />{error}</div>;
+  if (!detail) return <div className="flex items-center gap-2 text-sm text-slate-500"><Loader2 className="w-4 h-4 animate-spin" />Loading the match detail...</div>;
+
+  const runStatus = String(row['Match Status'] ?? '');
+  // Set when the run found the row in an earlier submission.
+  const earlierSubmission = String(row['Earlier Submission'] ?? '');
+  const earlierSession = String(row['Earlier Session'] ?? '');
+  const nameCandidates = detail.verdict.nameCandidates ?? [];
+
+  return (
+    <div className="space-y-4 text-left whitespace-normal">
+      <div>
+        <p className="text-sm text-slate-800"><span className="font-semibold">{detail.verdict.status}:</span> {detail.verdict.reason}</p>
+        {runStatus && runStatus !== detail.verdict.status && (
+          <p className="text-xs text-amber-700 mt-1">
+            The run marked this row &lsquo;{runStatus}&rsquo;{row['Match Reason'] ? ` (${String(row['Match Reason'])})` : ''}; matched on its own it is &lsquo;{detail.verdict.status}&rsquo;.
+          </p>
+        )}
+        {earlierSubmission && <p className="text-xs text-amber-700 mt-1">{earlierSubmission}</p>}
+        {earlierSession && (
+          <Link href={`/?session=${earlierSession}`} target="_blank" className="inline-flex items-center gap-1 text-xs font-medium text-indigo-700 hover:underline mt-1">
+            <ExternalLink className="w-3 h-3" />
+            Open the earlier session
+          </Link>
+        )}
+      </div>
+
+      {/* --- Field by Field --- */}
+      <table className="w-full text-xs border border-slate-200 rounded-lg overflow-hidden">
+        <thead className="bg-slate-100 text-slate-600">
+          <tr>
+            <th className="px-3 py-1.5 text-left font-semibold">Field</th>
+            <th className="px-3 py-1.5 text-left font-semibold">Submitted</th>
+            <th className="px-3 py-1.5 text-left font-semibold">Master list</th>
+            <th className="px-3 py-1.5 text-left font-semibold">Result</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {detail.fields.map(field => (
+            <tr key={field.field} className={agreementClasses[field.agreement]}>
+              <td className="px-3 py-1.5 font-medium">{field.label}</td>
+              <td className="px-3 py-1.5 font-mono">{field.submitted || '—'}</td>
+              <td className="px-3 py-1.5 font-mono">{field.source || '—'}</td>
+              <td className="px-3 py-1.5">{field.agreement}{field.note && <span className="text-slate-500"> · {field.note}</span>}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* --- Name, Word by Word --- */}
+      {detail.nameTokens.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Name, word by word</h5>
+          <div className="flex flex-wrap gap-1.5">
+            {detail.nameTokens.map((token, index) => (
+              <span key={index} title={tokenLabels[token.status]} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs font-mono ${tokenClasses[token.status]}`}>
+                {token.status === 'missing' ? token.source : token.submitted}
+                {token.source && token.submitted && token.source !== token.submitted && <span className="opacity-70">→ {token.source}</span>}
+                {token.similarity !== null && <span className="opacity-70">{token.similarity}%</span>}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* --- Other Candidates --- */}
+      {(detail.candidates.length > 0 || nameCandidates.length > 0) && (
+        <div>
+          <h5 className="flex items-center gap-1 text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1"><Users className="w-3 h-3" />Records considered</h5>
+          <ul className="text-xs divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            {detail.candidates.map((candidate, index) => (
+              <li key={index} className={`flex items-center justify-between gap-3 px-3 py-1.5 ${candidate.chosen ? 'bg-indigo-50' : ''}`}>
+                <span className="flex items-center gap-2 min-w-0">
+                  {candidate.chosen && <CheckCircle2 className="w-3 h-3 text-indigo-600 flex-shrink-0" />}
+                  <span className="truncate text-slate-900">{candidate.name || 'N/A'}</span>
+                  <span className="text-slate-500 font-mono">SSID {candidate.ssid || 'N/A'} · NIN {candidate.nin || 'N/A'}</span>
+                </span>
+                <span className="text-slate-600 whitespace-nowrap">
+                  via {candidate.via}{candidate.distance !== undefined && ` (${candidate.distance} edit${candidate.distance === 1 ? '' : 's'})`}
+                  {candidate.nameScore !== null && ` · name ${candidate.nameScore}%`} · score {Math.round(candidate.score * 10) / 10}
+                </span>
+              </li>
+            ))}
+            {nameCandidates.map((candidate, index) => (
+              <li key={`name-${index}`} className="flex items-center justify-between gap-3 px-3 py-1.5">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="truncate text-slate-900">{candidate.name || 'N/A'}</span>
+                  <span className="text-slate-500 font-mono">SSID {candidate.ssid || 'N/A'}</span>
+                </span>
+                <span className="text-slate-600 whitespace-nowrap">by name · {candidate.score}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* --- Both Records --- */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <RecordColumn title="Submitted row" record={detail.submitted} />
+        <RecordColumn title="Master list record" record={detail.source} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Save, Trash2 } from 'lucide-react';
+import { type MatchingProfile, type NameScorer, type NameNormalizerId, NAME_SCORERS, NAME_NORMALIZERS } from '@/lib/matchingProfiles';
+import { type ExtraFieldRole, EXTRA_FIELD_ROLES, EXTRA_FIELD_LABELS } from '@/lib/fields';
+import { useMatchingProfiles } from '@/hooks/useMatchingProfiles';
+
+type Props = {
+  profile: MatchingProfile;
+  onChange: (profile: MatchingProfile) => void;
+};
+
+const MODIFIED_SUFFIX = ' (modified)';
+
+const scorerLabels: Record<NameScorer, string> = {
+  token_set: 'Token Set (ignores extra names)',
+  token_sort: 'Token Sort (ignores word order)',
+  partial: 'Partial (substring match)',
+  WRatio: 'Weighted (best of all)',
+};
+
+const normalizerLabels: Record<NameNormalizerId, string> = {
+  none: 'None (compare as typed)',
+  west_african: 'West African (titles, initials, spellings)',
+};
+
+export default function MatchingSettings({ profile, onChange }: Props) {
+  const { profiles, saveProfile, deleteProfile, isPreset } = useMatchingProfiles();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleSelect = (name: string) => {
+    const selected = profiles.find(p => p.name === name);
+    if (selected) onChange(selected);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || isPreset(name)) return;
+    const saved = { ...profile, name };
+    saveProfile(saved);
+    onChange(saved);
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    deleteProfile(profile.name);
+    onChange(profiles[0]);
+  };
+
+  // Any edit detaches the settings from the saved profile, so the name echoed
+  // back by the API never claims a preset that was not actually used.
+  const edit = (changes: Partial<MatchingProfile>) => {
+    const name = profile.name.endsWith(MODIFIED_SUFFIX) ? profile.name : `${profile.name}${MODIFIED_SUFFIX}`;
+    onChange({ ...profile, ...changes, name });
+  };
+
+  const updateWeight = (key: keyof MatchingProfile['weights'], value: number) => {
+    edit({ weights: { ...profile.weights, [key]: value } });
+  };
+
+  // Unchecking a field also drops it from the critical list.
+  const toggleExtraField = (field: ExtraFieldRole, compared: boolean) => {
+    edit({
+      extraFields: compared ? [...profile.extraFields, field] : profile.extraFields.filter(f => f !== field),
+      criticalFields: compared ? profile.criticalFields : profile.criticalFields.filter(f => f !== field),
+    });
+  };
+
+  const toggleCriticalField = (field: ExtraFieldRole, critical: boolean) => {
+    edit({ criticalFields: critical ? [...profile.criticalFields, field] : profile.criticalFields.filter(f => f !== field) });
+  };
+
+  const inputClass = 'mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+          <span className="font-semibold text-slate-900">Matching Settings</span>
+          <span className="text-xs font-medium text-slate-500 bg-slate-100 rounded-full px-2 py-0.5">
+            {profile.name} · {profile.nameThreshold}%
+          </span>
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-500" /> : <ChevronDown className="w-4 h-4 text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 border-t border-slate-100 pt-4">
+          <div>
+            <label htmlFor="profile-select" className="block text-sm font-medium text-slate-700">Profile</label>
+            <div className="flex gap-2">
+              <select id="profile-select" value={profiles.some(p => p.name === profile.name) ? profile.name : ''} onChange={(e) => handleSelect(e.target.value)} className={inputClass}>
+                {!profiles.some(p => p.name === profile.name) && <option value="">{profile.name}</option>}
+                {profiles.map(p => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+              {!isPreset(profile.name) && profiles.some(p => p.name === profile.name) && (
+                <button type="button" onClick={handleDelete} title="Delete this profile" className="mt-1 px-2 text-red-600 hover:bg-red-50 rounded-lg">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="profile-threshold" className="block text-sm font-medium text-slate-700">Name threshold (%)</label>
+              <input id="profile-threshold" type="number" min={0} max={100} value={profile.nameThreshold} onChange={(e) => edit({ nameThreshold: Number(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="profile-scorer" className="block text-sm font-medium text-slate-700">Name scorer</label>
+              <select id="profile-scorer" value={profile.scorer} onChange={(e) => edit({ scorer: e.target.value as NameScorer })} className={inputClass}>
+                {NAME_SCORERS.map(scorer => (
+                  <option key={scorer} value={scorer}>{scorerLabels[scorer]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="profile-normalizer" className="block text-sm font-medium text-slate-700">Name normaliser</label>
+            <select id="profile-normalizer" value={profile.nameNormalizer} onChange={(e) => edit({ nameNormalizer: e.target.value as NameNormalizerId })} className={inputClass}>
+              {NAME_NORMALIZERS.map(normalizer => (
+                <option key={normalizer} value={normalizer}>{normalizerLabels[normalizer]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-slate-700">Candidate ranking weights</p>
+            <div className="grid grid-cols-3 gap-3">
+              {(['ssid', 'nin', 'name'] as const).map(key => (
+                <div key={key}>
+                  <label htmlFor={`weight-${key}`} className="block text-xs text-slate-500 uppercase">{key}</label>
+                  <input id={`weight-${key}`} type="number" min={0} step={key === 'name' ? 0.05 : 1} value={profile.weights[key]} onChange={(e) => updateWeight(key, Number(e.target.value))} className={inputClass} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={profile.typoRecovery} onChange={(e) => edit({ typoRecovery: e.target.checked })} className="rounded border-slate-300" />
+              Recover mistyped SSIDs/NINs
+            </label>
+            <div>
+              <label htmlFor="profile-typo-distance" className="block text-sm font-medium text-slate-700">Max typo distance</label>
+              <select id="profile-typo-distance" value={profile.maxTypoDistance} disabled={!profile.typoRecovery} onChange={(e) => edit({ maxTypoDistance: Number(e.target.value) })} className={inputClass}>
+                <option value={1}>1 edit (fast)</option>
+                <option value={2}>2 edits (slower)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={profile.nameOnlySearch} onChange={(e) => edit({ nameOnlySearch: e.target.checked })} className="rounded border-slate-300" />
+              Suggest name candidates for rows without IDs
+            </label>
+            <div>
+              <label htmlFor="profile-candidate-limit" className="block text-sm font-medium text-slate-700">Candidates per row</label>
+              <input id="profile-candidate-limit" type="number" min={1} max={20} value={profile.nameCandidateLimit} disabled={!profile.nameOnlySearch} onChange={(e) => edit({ nameCandidateLimit: Number(e.target.value) })} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-slate-700">Extra fields</p>
+            <p className="text-xs text-slate-500 mb-2">Compared when both the row and the source record hold a value. A critical mismatch makes the row a Partial Match.</p>
+            <div className="space-y-1">
+              {EXTRA_FIELD_ROLES.map(field => {
+                const compared = profile.extraFields.includes(field);
+                return (
+                  <div key={field} className="grid grid-cols-3 gap-3 text-sm text-slate-700">
+                    <span>{EXTRA_FIELD_LABELS[field]}</span>
+                    <label className="flex items-center gap-2">
+                      <input type="checkbox" checked={compared} onChange={(e) => toggleExtraField(field, e.target.checked)} className="rounded border-slate-300" />
+                      Compare
+                    </label>
+                    <label className={`flex items-center gap-2 ${compared ? '' : 'opacity-50'}`}>
+                      <input type="checkbox" checked={profile.criticalFields.includes(field)} disabled={!compared} onChange={(e) => toggleCriticalField(field, e.target.checked)} className="rounded border-slate-300" />
+                      Critical
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Save as profile..." className={inputClass} />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!newName.trim() || isPreset(newName.trim())}
+              className="mt-1 inline-flex items-center gap-1 px-3 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { ChevronUp, ChevronDown, Search, Filter, CheckCircle2, AlertTriangle, XCircle, Minus } from 'lucide-react';
+import { Fragment, useState, useMemo, type ReactNode } from 'react';
+import { ChevronUp, ChevronDown, ChevronRight, Search, Filter, CheckCircle2, AlertTriangle, XCircle, Minus, SpellCheck, UserSearch, Copy, List } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { type ReviewDecision, REVIEWABLE_STATUSES } from '@/lib/reviews';
+import { DecisionBadge } from '@/components/ReviewForm';
 
-type ResultRow = {
+export type ResultRow = {
   [key: string]: any;
 };
 
@@ -12,20 +14,31 @@ type Props = {
   data: ResultRow[];
   headers?: string[];
   responseHeaders?: string[]; // Headers from API response
-  onApproveMatch: (index: number) => void; // New prop to handle approvals
+  renderDetail?: (row: ResultRow) => ReactNode; // Shown beneath a row when it is expanded
+  decisionFor?: (row: ResultRow) => ReviewDecision | undefined; // Enables reviewing; the row's current decision
 };
 
+const AWAITING_REVIEW = 'awaiting-review';
+const DUPLICATE_CLUSTER = 'Duplicate Cluster';
+
+type View = 'all' | 'duplicates';
+
+// Clusters are numbered D1, D2, ... in file order.
+const clusterNumber = (row: ResultRow) => Number(String(row[DUPLICATE_CLUSTER] ?? '').replace(/\D/g, '')) || 0;
+
 type SortConfig = {
   key: string;
   direction: 'asc' | 'desc';
 } | null;
 
-export default function ResultTable({ data, headers, responseHeaders, onApproveMatch }: Props) {
+export default function ResultTable({ data, headers, responseHeaders, renderDetail, decisionFor }: Props) {
   const isMobile = useMediaQuery('(max-width: 768px)');
   
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
   const [filterText, setFilterText] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [expandedRows, setExpandedRows] = useState<Set<ResultRow>>(new Set());
+  const [view, setView] = useState<View>('all');
 
   if (data.length === 0) return null;
 
@@ -67,16 +80,23 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
         );
       
       const matchesStatus = statusFilter === 'all' || 
-        (statusColumn && row[statusColumn] === statusFilter);
+        (statusFilter === AWAITING_REVIEW
+          ? statusColumn && REVIEWABLE_STATUSES.includes(row[statusColumn]) && !decisionFor?.(row)
+          : statusColumn && row[statusColumn] === statusFilter);
       
-      return matchesText && matchesStatus;
+      const matchesView = view === 'all' || Boolean(row[DUPLICATE_CLUSTER]);
+
+      return matchesText && matchesStatus && matchesView;
     });
-  }, [data, filterText, statusFilter, statusColumn]);
+  }, [data, filterText, statusFilter, statusColumn, decisionFor, view]);
 
   const sortedData = useMemo(() => {
-    if (!sortConfig) return filteredData;
+    if (!sortConfig && view === 'all') return filteredData;
 
+    // The Duplicates tab keeps each cluster together; a chosen sort orders rows within it.
     return [...filteredData].sort((a, b) => {
+      if (view === 'duplicates' && clusterNumber(a) !== clusterNumber(b)) return clusterNumber(a) - clusterNumber(b);
+      if (!sortConfig) return 0;
       const aValue = a[sortConfig.key];
       const bValue = b[sortConfig.key];
 
@@ -84,7 +104,7 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
       if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [filteredData, sortConfig]);
+  }, [filteredData, sortConfig, view]);
 
   const handleSort = (key: string) => {
     setSortConfig(current => {
@@ -98,11 +118,25 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
     });
   };
 
+  // Rows are tracked by identity, so an expanded row stays open when sorting or filtering moves it.
+  const toggleRow = (row: ResultRow) => {
+    setExpandedRows(current => {
+      const next = new Set(current);
+      if (next.has(row)) next.delete(row);
+      else next.add(row);
+      return next;
+    });
+  };
+
+  const isReviewable = (row: ResultRow) => Boolean(decisionFor && statusColumn && REVIEWABLE_STATUSES.includes(row[statusColumn]));
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'Valid': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
       case 'Partial Match': return <AlertTriangle className="w-4 h-4 text-amber-500" />;
       case 'Invalid': return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'Probable Typo': return <SpellCheck className="w-4 h-4 text-violet-500" />;
+      case 'Needs Identifier': return <UserSearch className="w-4 h-4 text-blue-500" />;
       default: return <Minus className="w-4 h-4 text-slate-400" />;
     }
   };
@@ -112,6 +146,8 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
       case 'Valid': return 'bg-gradient-to-r from-emerald-50 to-emerald-25 border-l-4 border-emerald-400';
       case 'Partial Match': return 'bg-gradient-to-r from-amber-50 to-amber-25 border-l-4 border-amber-400';
       case 'Invalid': return 'bg-gradient-to-r from-red-50 to-red-25 border-l-4 border-red-400';
+      case 'Probable Typo': return 'bg-gradient-to-r from-violet-50 to-violet-25 border-l-4 border-violet-400';
+      case 'Needs Identifier': return 'bg-gradient-to-r from-blue-50 to-blue-25 border-l-4 border-blue-400';
       default: return 'bg-white hover:bg-slate-50 border-l-4 border-transparent';
     }
   };
@@ -123,6 +159,8 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
       case 'Valid': return `${baseClasses} bg-emerald-100 text-emerald-700 border border-emerald-200`;
       case 'Partial Match': return `${baseClasses} bg-amber-100 text-amber-700 border border-amber-200`;
       case 'Invalid': return `${baseClasses} bg-red-100 text-red-700 border border-red-200`;
+      case 'Probable Typo': return `${baseClasses} bg-violet-100 text-violet-700 border border-violet-200`;
+      case 'Needs Identifier': return `${baseClasses} bg-blue-100 text-blue-700 border border-blue-200`;
       default: return `${baseClasses} bg-slate-100 text-slate-700 border border-slate-200`;
     }
   };
@@ -131,6 +169,11 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
     ? [...new Set(data.map(row => row[statusColumn]))]
     : [];
 
+  const clusterCount = new Set(data.map(row => row[DUPLICATE_CLUSTER]).filter(Boolean)).size;
+  const shownPerCluster = new Map<string, number>();
+  for (const row of sortedData) if (row[DUPLICATE_CLUSTER]) shownPerCluster.set(row[DUPLICATE_CLUSTER], (shownPerCluster.get(row[DUPLICATE_CLUSTER]) || 0) + 1);
+  const columnCount = tableHeaders.length + (renderDetail ? 2 : 1);
+
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
       {/* Header */}
@@ -164,6 +207,7 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
                   className="pl-10 pr-8 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 text-sm appearance-none bg-white w-full sm:w-auto"
                 >
                   <option value="all">All Statuses</option>
+                  {decisionFor && <option value={AWAITING_REVIEW}>Awaiting review</option>}
                   {uniqueStatuses.map(status => (
                     <option key={status} value={status}>{status}</option>
                   ))}
@@ -172,6 +216,25 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
             )}
           </div>
         </div>
+        {clusterCount > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            <button
+              onClick={() => setView('all')}
+              className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md ${view === 'all' ? 'bg-indigo-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}
+            >
+              <List className="w-3.5 h-3.5" />
+              All Results
+            </button>
+            <button
+              onClick={() => setView('duplicates')}
+              className={`inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md ${view === 'duplicates' ? 'bg-indigo-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-200'}`}
+              title="Groups of rows that look like the same person"
+            >
+              <Copy className="w-3.5 h-3.5" />
+              Duplicates ({clusterCount.toLocaleString()} {clusterCount === 1 ? 'cluster' : 'clusters'})
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Table */}
@@ -179,6 +242,7 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
         <table className="min-w-full">
           <thead className="bg-gradient-to-r from-slate-100 to-slate-200 sticky top-0 z-10">
             <tr>
+              {renderDetail && <th className="w-8 border-b border-slate-300" aria-label="Details" />}
               {tableHeaders.map((header) => (
                 <th
                   key={header}
@@ -202,10 +266,32 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
           </thead>
           <tbody className="divide-y divide-slate-200">
             {sortedData.map((row, i) => (
+              <Fragment key={i}>
+              {view === 'duplicates' && row[DUPLICATE_CLUSTER] !== sortedData[i - 1]?.[DUPLICATE_CLUSTER] && (
+                <tr className="bg-slate-100">
+                  <td colSpan={columnCount} className="px-4 sm:px-6 py-2 text-xs text-slate-700">
+                    <span className="font-semibold">Cluster {row[DUPLICATE_CLUSTER]}</span>
+                    {' · '}{row['Duplicate Confidence']}% confidence
+                    {' · '}{shownPerCluster.get(row[DUPLICATE_CLUSTER])} rows
+                    {row['Duplicate Basis'] && <span className="text-slate-500"> · {row['Duplicate Basis']}</span>}
+                  </td>
+                </tr>
+              )}
               <tr 
-                key={i} 
                 className={`${getRowClass(statusColumn ? row[statusColumn] : '')} transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5`}
               >
+                {renderDetail && (
+                  <td className="pl-3 py-4">
+                    <button
+                      onClick={() => toggleRow(row)}
+                      className="p-1 rounded-md text-slate-500 hover:text-indigo-700 hover:bg-indigo-50 transition-colors"
+                      title={expandedRows.has(row) ? 'Hide the match detail' : 'Show why this row got its status'}
+                      aria-expanded={expandedRows.has(row)}
+                    >
+                      <ChevronRight className={`w-4 h-4 transition-transform ${expandedRows.has(row) ? 'rotate-90' : ''}`} />
+                    </button>
+                  </td>
+                )}
                 {tableHeaders.map((key) => (
                   <td key={key} className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
                     {key === statusColumn ? (
@@ -220,17 +306,29 @@ export default function ResultTable({ data, headers, responseHeaders, onApproveM
                 ))}
                 {/* New "Actions" Cell with Conditional Button */}
                 <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm text-center">
-                  {statusColumn && (row[statusColumn] === 'Partial Match' || row[statusColumn] === 'Invalid') && (
+                  {decisionFor?.(row) ? (
+                    <button onClick={() => toggleRow(row)} title="Show or change the decision">
+                      <DecisionBadge decision={decisionFor(row) as ReviewDecision} />
+                    </button>
+                  ) : isReviewable(row) && (
                     <button
-                      onClick={() => onApproveMatch(i)}
-                      className="px-2 py-1 text-xs font-semibold text-emerald-700 bg-emerald-100 rounded-md hover:bg-emerald-200 transition-colors"
-                      title="Manually approve this match"
+                      onClick={() => toggleRow(row)}
+                      className="px-2 py-1 text-xs font-semibold text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors"
+                      title="Approve, reject or correct this row"
                     >
-                      Approve
+                      Review
                     </button>
                   )}
                 </td>
               </tr>
+              {renderDetail && expandedRows.has(row) && (
+                <tr className="bg-slate-50">
+                  <td colSpan={columnCount} className="px-4 sm:px-6 py-4 border-l-4 border-indigo-300">
+                    {renderDetail(row)}
+                  </td>
+                </tr>
+              )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { Loader2, ClipboardCheck, CheckCircle2, XCircle, Replace } from 'lucide-react';
+import type { Entry } from '@/lib/fields';
+import { type ReviewAction, type ReviewDecision, type ReviewDecisionInput, REVIEW_ACTION_LABELS, sourceCorrection } from '@/lib/reviews';
+
+type Props = {
+  row: Entry;
+  /** 1-based position of the row in the run's results. */
+  rowNumber: number;
+  decision?: ReviewDecision;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  onDecide: (input: ReviewDecisionInput) => Promise<unknown>;
+};
+
+const actionStyles: Record<ReviewAction, string> = {
+  approve: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  reject: 'bg-red-100 text-red-700 border-red-200',
+  correct: 'bg-sky-100 text-sky-700 border-sky-200',
+};
+
+const actionIcons: Record<ReviewAction, ReactNode> = {
+  approve: <CheckCircle2 className="w-4 h-4" />,
+  reject: <XCircle className="w-4 h-4" />,
+  correct: <Replace className="w-4 h-4" />,
+};
+
+export function DecisionBadge({ decision }: { decision: ReviewDecision; }) {
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${actionStyles[decision.action]}`} title={`${decision.reviewer}: ${decision.note}`}>
+      {actionIcons[decision.action]}
+      {REVIEW_ACTION_LABELS[decision.action]}
+    </span>
+  );
+}
+
+// --- Main Component ---
+// Approve, reject or accept the source's values for one row, with a required note.
+export default function ReviewForm({ row, rowNumber, decision, reviewer, onReviewerChange, onDecide }: Props) {
+  const correction = sourceCorrection(row);
+  const [action, setAction] = useState<ReviewAction>(decision?.action ?? 'approve');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = note.trim() !== '' && reviewer.trim() !== '' && (action !== 'correct' || correction !== null) && !isSaving;
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onDecide({ row: rowNumber, action, note, reviewer });
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not record the decision.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg bg-white p-4 space-y-3 text-left whitespace-normal">
+      <div className="flex items-center justify-between gap-2">
+        <h5 className="flex items-center gap-2 text-sm font-semibold text-slate-800"><ClipboardCheck className="w-4 h-4 text-indigo-600" />Review</h5>
+        {decision && (
+          <p className="text-xs text-slate-500">
+            <DecisionBadge decision={decision} /> by {decision.reviewer} on {new Date(decision.decidedAt).toLocaleString()}: &ldquo;{decision.note}&rdquo;
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['approve', 'reject', 'correct'] as const).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setAction(option)}
+            disabled={option === 'correct' && !correction}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${action === option ? actionStyles[option] : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+          >
+            {actionIcons[option]}
+            {option === 'approve' ? 'Approve' : option === 'reject' ? 'Reject' : 'Accept source values'}
+          </button>
+        ))}
+      </div>
+      {action === 'correct' && correction && (
+        <p className="text-xs text-slate-600">
+          Replaces the submitted values with SSID <span className="font-mono">{correction.ssid || '—'}</span>, NIN <span className="font-mono">{correction.nin || '—'}</span> and name <span className="font-medium">{correction.name || '—'}</span>.
+        </p>
+      )}
+
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        rows={2}
+        placeholder={decision ? 'Why is the decision being changed? (required)' : 'Why? (required)'}
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={reviewer}
+          onChange={e => onReviewerChange(e.target.value)}
+          placeholder="Your name (required)"
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="inline-flex justify-center items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {decision ? 'Change decision' : 'Record decision'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { Sheet } from 'lucide-react';
+import type { SheetSelection, SheetSummary } from '@/lib/parseExcel';
+
+type Props = {
+  /** Every sheet of the uploaded workbook, with its record count. */
+  sheets: SheetSummary[];
+  /** The chosen sheets; null means the first sheet only. */
+  value: SheetSelection | null;
+  onChange: (selection: SheetSelection | null) => void;
+  disabled?: boolean;
+};
+
+export default function SheetPicker({ sheets, value, onChange, disabled }: Props) {
+  if (sheets.length < 2) return null;
+
+  const selected = value === 'all' ? sheets.map(sheet => sheet.name) : value ?? [sheets[0].name];
+  const allSelected = selected.length === sheets.length;
+  const selectedRows = sheets.filter(sheet => selected.includes(sheet.name)).reduce((sum, sheet) => sum + sheet.recordCount, 0);
+
+  // At least one sheet stays selected; the first sheet alone is the default.
+  const toggle = (name: string) => {
+    const next = selected.includes(name) ? selected.filter(n => n !== name) : sheets.map(sheet => sheet.name).filter(n => n === name || selected.includes(n));
+    if (next.length === 0) return;
+    if (next.length === sheets.length) onChange('all');
+    else onChange(next.length === 1 && next[0] === sheets[0].name ? null : next);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-sm font-medium text-slate-700">
+          <Sheet className="w-4 h-4 text-indigo-600" />
+          Sheets
+        </span>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            disabled={disabled}
+            onChange={() => onChange(allSelected ? null : 'all')}
+            className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          All {sheets.length} sheets
+        </label>
+      </div>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {sheets.map(sheet => (
+          <li key={sheet.name}>
+            <label className="flex items-center justify-between gap-2 px-2 py-1 rounded-md text-sm text-slate-700 hover:bg-slate-50">
+              <span className="flex items-center gap-2 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(sheet.name)}
+                  disabled={disabled}
+                  onChange={() => toggle(sheet.name)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="truncate">{sheet.name}</span>
+              </span>
+              <span className="text-xs text-slate-500">{sheet.recordCount.toLocaleString()} rows</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-slate-500 mt-2">
+        {selected.length > 1
+          ? `${selected.length} sheets, ${selectedRows.toLocaleString()} rows. Results gain a 'Sheet' column naming each row's sheet.`
+          : `Only '${selected[0]}' is read (${selectedRows.toLocaleString()} rows).`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useRef } from 'react';
+import { FileSpreadsheet, Loader2, Upload, X } from 'lucide-react';
+
+type Props = {
+  file: File | null;
+  isUploading: boolean;
+  /** Called with the chosen file, or null when it is removed. */
+  onSelect: (file: File | null) => void;
+  disabled?: boolean;
+};
+
+// A one-off source file that replaces the master list for the next run, as on the Lookup page.
+export default function SourceFileUpload({ file, isUploading, onSelect, disabled }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleRemove = () => {
+    onSelect(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-xl p-4">
+      <p className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+        <FileSpreadsheet className="w-4 h-4 text-indigo-600" />
+        Custom Source <span className="font-normal text-slate-500">(optional)</span>
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        className="hidden"
+        onChange={(e) => onSelect(e.target.files?.[0] ?? null)}
+      />
+      {file ? (
+        <div className="flex items-center justify-between gap-2 p-2 bg-emerald-50 border border-emerald-200 rounded-md text-sm">
+          <span className="flex items-center gap-2 min-w-0 text-emerald-800">
+            {isUploading && <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />}
+            <span className="truncate">{file.name}</span>
+          </span>
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={disabled || isUploading}
+            className="p-1 rounded-md text-emerald-700 hover:bg-emerald-100 disabled:opacity-50"
+            title="Use the master list instead"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="w-full inline-flex items-center justify-center gap-2 p-2 border border-dashed border-slate-300 rounded-md text-sm text-slate-600 hover:border-indigo-300 hover:bg-slate-50 disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4" />
+          Upload a source file
+        </button>
+      )}
+      <p className="text-xs text-slate-500 mt-1">Replaces the master list for this validation only. It is not saved as a version.</p>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { Database } from 'lucide-react';
+import type { SourceType } from '@/lib/sourceAdapters';
+import { useSourceLists } from '@/hooks/useSourceLists';
+
+type Props = {
+  /** The chosen list id; null means the server's default list. */
+  value: string | null;
+  onChange: (id: string | null) => void;
+  disabled?: boolean;
+};
+
+const typeLabels: Record<SourceType, string> = {
+  api: 'API',
+  url: 'Spreadsheet URL',
+  file: 'Spreadsheet',
+  directory: 'Spreadsheet folder',
+  sqlite: 'SQLite',
+  postgres: 'PostgreSQL',
+  json: 'JSON feed',
+};
+
+export default function SourceListPicker({ value, onChange, disabled }: Props) {
+  const { lists, defaultId, error } = useSourceLists();
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (lists.length === 0) return null;
+
+  const selectedId = value ?? defaultId ?? '';
+  const selected = lists.find(list => list.id === selectedId);
+
+  return (
+    <div className="border border-slate-200 rounded-xl p-4">
+      <label htmlFor="source-list" className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+        <Database className="w-4 h-4 text-indigo-600" />
+        Master List
+      </label>
+      <select
+        id="source-list"
+        value={selectedId}
+        disabled={disabled || lists.length < 2}
+        onChange={(e) => onChange(e.target.value === defaultId ? null : e.target.value)}
+        className="w-full p-2 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-50"
+      >
+        {lists.map(list => (
+          <option key={list.id} value={list.id}>
+            {list.name}{list.id === defaultId ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="text-xs text-slate-500 mt-1">
+          {typeLabels[selected.type]}{selected.description ? ` · ${selected.description}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
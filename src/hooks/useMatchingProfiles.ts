@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { type MatchingProfile, DEFAULT_MATCHING_PROFILE, PRESET_MATCHING_PROFILES } from '@/lib/matchingProfiles';
+
+const STORAGE_KEY = 'optimatch.matchingProfiles';
+
+function readSavedProfiles(): MatchingProfile[] {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    // Profiles saved before a setting existed pick up its default
+    return Array.isArray(saved) ? saved.map(p => ({ ...DEFAULT_MATCHING_PROFILE, ...p })) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Named matching profiles: the built-in presets plus any the user has saved
+// in this browser. Saving under an existing custom name replaces that profile.
+export function useMatchingProfiles() {
+  const [savedProfiles, setSavedProfiles] = useState<MatchingProfile[]>([]);
+
+  // Read after mount so server and client render the same initial list
+  useEffect(() => {
+    setSavedProfiles(readSavedProfiles());
+  }, []);
+
+  const persist = (profiles: MatchingProfile[]) => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    setSavedProfiles(profiles);
+  };
+
+  const saveProfile = useCallback((profile: MatchingProfile) => {
+    persist([...readSavedProfiles().filter(p => p.name !== profile.name), profile]);
+  }, []);
+
+  const deleteProfile = useCallback((name: string) => {
+    persist(readSavedProfiles().filter(p => p.name !== name));
+  }, []);
+
+  const isPreset = useCallback((name: string) => PRESET_MATCHING_PROFILES.some(p => p.name === name), []);
+
+  return {
+    profiles: [...PRESET_MATCHING_PROFILES, ...savedProfiles.filter(p => !isPreset(p.name))],
+    saveProfile,
+    deleteProfile,
+    isPreset,
+  };
+}
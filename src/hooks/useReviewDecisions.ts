@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ReviewDecision, ReviewDecisionInput } from '@/lib/reviews';
+
+const REVIEWER_STORAGE_KEY = 'optimatch.reviewer';
+
+function readReviewer(): string {
+  if (typeof window === 'undefined') return '';
+  return window.localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+}
+
+// Reviewer decisions on the rows of one validation run, keyed by 1-based row
+// number, loaded from the server whenever the run changes. The reviewer's name
+// is remembered in the browser so it is typed once, not once per decision.
+export function useReviewDecisions(runId: string | null) {
+  const [decisions, setDecisions] = useState<Map<number, ReviewDecision>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const [reviewer, setReviewerState] = useState('');
+
+  useEffect(() => {
+    setReviewerState(readReviewer());
+  }, []);
+
+  const setReviewer = useCallback((name: string) => {
+    setReviewerState(name);
+    window.localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  }, []);
+
+  useEffect(() => {
+    setDecisions(new Map());
+    setError(null);
+    if (!runId) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch(`/api/reviews/${runId}`, { cache: 'no-store' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || 'Could not load the review decisions.');
+        if (active) setDecisions(new Map((data.decisions as ReviewDecision[]).map(decision => [decision.row, decision])));
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : 'Could not load the review decisions.');
+      }
+    })();
+    return () => { active = false; };
+  }, [runId]);
+
+  // Resolves once the server has recorded the decision; throws with the server's message otherwise.
+  const decide = useCallback(async (input: ReviewDecisionInput): Promise<ReviewDecision> => {
+    if (!runId) throw new Error('The run has no id to record decisions against.');
+    const res = await fetch(`/api/reviews/${runId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.details || data.error || 'Could not record the decision.');
+    const decision: ReviewDecision = data.decision;
+    setDecisions(current => new Map(current).set(decision.row, decision));
+    return decision;
+  }, [runId]);
+
+  return { decisions, error, decide, reviewer, setReviewer };
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { ColumnMapping } from '@/lib/fields';
+
+const STORAGE_KEY = 'optimatch.columnMappings';
+
+type SavedMappings = Record<string, ColumnMapping>;
+
+function readSavedMappings(): SavedMappings {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // A corrupted entry should not block validation; start afresh.
+    return {};
+  }
+}
+
+// Column mappings confirmed by the user, keyed by header signature, so files
+// with the same layout are offered the same mapping next time.
+export function useSavedColumnMappings() {
+  const getSavedMapping = useCallback((signature: string): ColumnMapping | null => {
+    return readSavedMappings()[signature] || null;
+  }, []);
+
+  const saveMapping = useCallback((signature: string, mapping: ColumnMapping) => {
+    const saved = readSavedMappings();
+    saved[signature] = mapping;
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  }, []);
+
+  const forgetMapping = useCallback((signature: string) => {
+    const saved = readSavedMappings();
+    delete saved[signature];
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  }, []);
+
+  return { getSavedMapping, saveMapping, forgetMapping };
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SourceListSummary } from '@/lib/sourceLists';
+
+// The master lists configured on the server, loaded once per page.
+export function useSourceLists() {
+  const [lists, setLists] = useState<SourceListSummary[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/source/lists');
+        if (!res.ok) throw new Error('Could not load the master lists.');
+        const data: { lists: SourceListSummary[]; defaultId: string | null; } = await res.json();
+        if (!active) return;
+        setLists(data.lists);
+        setDefaultId(data.defaultId);
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : 'Could not load the master lists.');
+      }
+    })();
+    return () => { active = false; };
+  }, []);
+
+  return { lists, defaultId, error };
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ValidationJob } from '@/lib/jobs';
+
+/** A job as listed by GET /api/jobs (without its request body). */
+export type JobListing = Omit<ValidationJob, 'request'>;
+
+const POLL_INTERVAL_MS = 3000;
+
+// Background validation jobs from the server. Polls while any job is queued
+// or running, and stops once they have all finished.
+export function useValidationJobs() {
+  const [jobs, setJobs] = useState<JobListing[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/jobs', { cache: 'no-store' });
+      if (!res.ok) throw new Error('Could not load background jobs.');
+      const data: { jobs: JobListing[]; } = await res.json();
+      setJobs(data.jobs);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load background jobs.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, refresh]);
+
+  const cancelJob = useCallback(async (id: string) => {
+    await fetch(`/api/jobs/${id}`, { method: 'DELETE' });
+    await refresh();
+  }, [refresh]);
+
+  // Re-runs a job against the master list version it used; the server explains when it cannot.
+  const rerunJob = useCallback(async (id: string) => {
+    const res = await fetch(`/api/jobs/${id}/rerun`, { method: 'POST' });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(data.details || data.error || 'Could not re-run the job.');
+      return;
+    }
+    await refresh();
+  }, [refresh]);
+
+  return { jobs, error, refresh, cancelJob, rerunJob };
+}
@@ -0,0 +1,202 @@
+// File: src/lib/apiKeys.ts
+// Keys for the public /api/v1 routes. A key is shown once when it is created;
+// only a hash of its secret is stored. Each key has its own rate limit, in
+// requests per minute, and usage counters kept with its record.
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { isRecordId, listRecords, newRecordId, readRecord, writeRecord } from '@/lib/store';
+
+// --- Type Definitions ---
+export type ApiEndpoint = 'validate' | 'lookup';
+
+export type ApiKeyUsage = {
+  requests: Record<ApiEndpoint, number>;
+  /** Rows validated or looked up across all requests. */
+  rows: number;
+  /** Requests refused because the key was over its rate limit. */
+  rateLimited: number;
+  lastUsedAt: string | null;
+};
+
+/** A key as listed to admins: everything but the hash of its secret. */
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  /** The start of the key, enough to recognise it. */
+  prefix: string;
+  rateLimit: number;
+  createdAt: string;
+  revokedAt: string | null;
+  usage: ApiKeyUsage;
+};
+
+type ApiKeyRecord = ApiKeySummary & { secretHash: string; };
+
+export type ApiKeyInput = { name?: unknown; rateLimit?: unknown; };
+
+/** The outcome of checking a request's key: the key, or why it was refused. */
+export type ApiKeyCheck =
+  | { key: ApiKeySummary; remaining: number; }
+  | { error: string; status: 401 | 429; retryAfter?: number; };
+
+// --- Configuration Constants ---
+export const DEFAULT_RATE_LIMIT = 60;
+export const MAX_RATE_LIMIT = 10000;
+const API_KEYS = 'api-keys';
+const KEY_PREFIX = 'om';
+const RATE_WINDOW_MS = 60000;
+// Server-only: the token the key management routes require. Unset, they refuse every caller.
+const ADMIN_TOKEN_ENV = 'OPTIMATCH_ADMIN_TOKEN';
+
+// Recent request times per key, counted per server process, and the queue of
+// usage updates (read-modify-write on one file, so applied one at a time).
+// Each route bundle loads its own copy of this module, so both live on globalThis.
+type ApiKeyState = { recentRequests: Map<string, number[]>; usageWrites: Promise<void>; };
+const shared = globalThis as typeof globalThis & { optimatchApiKeys?: ApiKeyState; };
+const state: ApiKeyState = shared.optimatchApiKeys ??= { recentRequests: new Map(), usageWrites: Promise.resolve() };
+
+// --- Helper Functions ---
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+  const { id, name, prefix, rateLimit, createdAt, revokedAt, usage } = record;
+  return { id, name, prefix, rateLimit, createdAt, revokedAt, usage };
+}
+
+/** Checks the editable fields; `partial` allows either to be left out. */
+function checkInput(input: ApiKeyInput, partial: boolean): string | null {
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'name must be a non-empty string.';
+  }
+  if (input.rateLimit !== undefined && input.rateLimit !== null) {
+    const limit = input.rateLimit;
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_RATE_LIMIT) return `rateLimit must be a whole number of requests per minute from 1 to ${MAX_RATE_LIMIT}.`;
+  }
+  return null;
+}
+
+function bearerToken(req: Request): string | undefined {
+  return req.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+/** Reads the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`. */
+function keyFromRequest(req: Request): string | null {
+  return bearerToken(req) || req.headers.get('x-api-key')?.trim() || null;
+}
+
+/** Counts a request against the key's limit; returns the requests left, or -1 when over it. */
+function takeRequest(key: ApiKeySummary, now: number): number {
+  const recent = (state.recentRequests.get(key.id) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  if (recent.length >= key.rateLimit) {
+    state.recentRequests.set(key.id, recent);
+    return -1;
+  }
+  recent.push(now);
+  state.recentRequests.set(key.id, recent);
+  return key.rateLimit - recent.length;
+}
+
+function updateUsage(id: string, update: (usage: ApiKeyUsage) => void): Promise<void> {
+  state.usageWrites = state.usageWrites.then(async () => {
+    const record = await readRecord<ApiKeyRecord>(API_KEYS, id);
+    if (!record) return;
+    update(record.usage);
+    record.usage.lastUsedAt = new Date().toISOString();
+    await writeRecord(API_KEYS, id, record);
+  }).catch(error => console.error(`Could not record usage of API key ${id}:`, error));
+  return state.usageWrites;
+}
+
+// --- Administration ---
+/**
+ * Checks the admin credential of a key management request, sent as
+ * `Authorization: Bearer <token>`. Returns why it was refused, or null to let it through.
+ */
+export function checkAdminToken(req: Request): { error: string; status: 401 | 503; } | null {
+  const expected = process.env[ADMIN_TOKEN_ENV];
+  if (!expected) return { error: `API key administration is disabled until ${ADMIN_TOKEN_ENV} is set on the server.`, status: 503 };
+  // Hashing both sides gives equal lengths, as timingSafeEqual requires.
+  const presented = Buffer.from(hashSecret(bearerToken(req) ?? ''));
+  if (!timingSafeEqual(presented, Buffer.from(hashSecret(expected)))) return { error: 'A valid admin token is required, as a Bearer token.', status: 401 };
+  return null;
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  return (await listRecords<ApiKeyRecord>(API_KEYS)).map(toSummary).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Creates a key and returns it with its secret, which is not stored and cannot be shown again. */
+export async function createApiKey(input: ApiKeyInput): Promise<{ key: ApiKeySummary; secret: string; } | { error: string; }> {
+  const inputError = checkInput(input, false);
+  if (inputError) return { error: inputError };
+
+  const id = newRecordId();
+  const secret = `${KEY_PREFIX}_${id}_${randomBytes(24).toString('hex')}`;
+  const record: ApiKeyRecord = {
+    id,
+    name: String(input.name).trim(),
+    prefix: secret.slice(0, KEY_PREFIX.length + 9),
+    rateLimit: (input.rateLimit ?? DEFAULT_RATE_LIMIT) as number,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    usage: { requests: { validate: 0, lookup: 0 }, rows: 0, rateLimited: 0, lastUsedAt: null },
+    secretHash: hashSecret(secret),
+  };
+  await writeRecord(API_KEYS, id, record);
+  return { key: toSummary(record), secret };
+}
+
+/** Renames a key or changes its rate limit. Returns null for unknown keys. */
+export async function updateApiKey(id: string, input: ApiKeyInput): Promise<ApiKeySummary | { error: string; } | null> {
+  const record = isRecordId(id) ? await readRecord<ApiKeyRecord>(API_KEYS, id) : null;
+  if (!record) return null;
+  const inputError = checkInput(input, true);
+  if (inputError) return { error: inputError };
+
+  if (typeof input.name === 'string') record.name = input.name.trim();
+  if (typeof input.rateLimit === 'number') record.rateLimit = input.rateLimit;
+  await writeRecord(API_KEYS, id, record);
+  return toSummary(record);
+}
+
+/** Revokes a key; it stays listed with its usage. Returns null for unknown keys. */
+export async function revokeApiKey(id: string): Promise<ApiKeySummary | null> {
+  const record = isRecordId(id) ? await readRecord<ApiKeyRecord>(API_KEYS, id) : null;
+  if (!record) return null;
+  record.revokedAt = record.revokedAt ?? new Date().toISOString();
+  await writeRecord(API_KEYS, id, record);
+  state.recentRequests.delete(id);
+  return toSummary(record);
+}
+
+// --- Request Checks ---
+/** Finds the request's key and counts the request against its rate limit. */
+export async function checkApiKey(req: Request): Promise<ApiKeyCheck> {
+  const presented = keyFromRequest(req);
+  const [prefix, id, random] = presented?.split('_') ?? [];
+  const record = presented && prefix === KEY_PREFIX && id && random && isRecordId(id) ? await readRecord<ApiKeyRecord>(API_KEYS, id) : null;
+  const presentedHash = Buffer.from(hashSecret(presented ?? ''));
+  if (!record || record.revokedAt || !timingSafeEqual(presentedHash, Buffer.from(record.secretHash))) {
+    return { error: 'A valid API key is required, as a Bearer token or in the X-API-Key header.', status: 401 };
+  }
+
+  const key = toSummary(record);
+  const now = Date.now();
+  const remaining = takeRequest(key, now);
+  if (remaining < 0) {
+    await updateUsage(key.id, usage => { usage.rateLimited++; });
+    const oldest = state.recentRequests.get(key.id)?.[0] ?? now;
+    return { error: `Rate limit of ${key.rateLimit} requests per minute exceeded.`, status: 429, retryAfter: Math.max(1, Math.ceil((oldest + RATE_WINDOW_MS - now) / 1000)) };
+  }
+  return { key, remaining };
+}
+
+/** Counts a completed request and the rows it processed. */
+export async function recordApiUsage(id: string, endpoint: ApiEndpoint, rows: number): Promise<void> {
+  await updateUsage(id, usage => {
+    usage.requests[endpoint]++;
+    usage.rows += rows;
+  });
+}
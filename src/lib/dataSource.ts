@@ -1,149 +1,322 @@
 // File: app/lib/dataSource.ts
 
-import * as XLSX from 'xlsx';
+import { type Entry } from '@/lib/fields';
+import { type SourceConfig, type SourceValidators, type LoadedRecords, loadRecords } from '@/lib/sourceAdapters';
+import { type SourceListSummary, findSourceList, getSourceLists, summarizeSourceList } from '@/lib/sourceLists';
+import { type SourceSnapshot, getSnapshot, readSnapshotRows, recordSnapshot } from '@/lib/snapshots';
+import { type SourceIndex, buildSourceIndex } from '@/lib/matcher';
+import { readRecord, writeRecord } from '@/lib/store';
 
 // --- Type Definitions & Constants ---
-type Entry = { [key: string]: any; };
-const CACHE_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+/** A parsed master list and its SSID, NIN and name lookups, built once per load. */
+export type LoadedSource = {
+    /** Every parsed record in load order, including those without an SSID. */
+    records: Entry[];
+    index: SourceIndex;
+    /** The configured list the records came from; null for a one-off uploaded source. */
+    list: SourceListSummary | null;
+    /** The saved version of the list these records match; null for uploaded sources or when it could not be saved. */
+    snapshot: SourceSnapshot | null;
+};
 
-// IMPORTANT: This environment variable will now hold the API endpoint URL,
-// NOT the direct Blob storage URL.
-const DEFAULT_SOURCE_API_URL = process.env.NEXT_PUBLIC_DEFAULT_SOURCE_URL;
+/** What GET /api/source/status reports about one configured list or saved version. */
+export type SourceCacheStatus = {
+    key: string;
+    kind: 'list' | 'snapshot';
+    listId: string;
+    name: string;
+    loaded: boolean;
+    recordCount: number | null;
+    /** Identifiers shared by more than one record, and records matchable only by NIN or name. */
+    index: { duplicateSsids: number; duplicateNins: number; withoutSsid: number; } | null;
+    loadedAt: string | null;
+    ageMs: number | null;
+    /** Older than the cache duration; it is still served while a reload runs. */
+    stale: boolean;
+    refreshing: boolean;
+    /** The most recent failed load, cleared by the next successful one. */
+    lastError: { message: string; at: string; } | null;
+    snapshotId: string | null;
+};
+
+type CacheEntry = {
+    kind: SourceCacheStatus['kind'];
+    listId: string;
+    name: string;
+    source: LoadedSource | null;
+    timestamp: number;
+    /** What the source said about the cached content, so a reload can skip unchanged content. */
+    validators: SourceValidators | null;
+    /** The list config the content was loaded with; after an edit, the validators no longer apply. */
+    config: string | null;
+    loading: Promise<LoadedSource> | null;
+    lastError: SourceCacheStatus['lastError'];
+};
+
+/** A cached copy: the indexed records, and the validators and list config they were loaded with. */
+type CachedCopy = { source: LoadedSource; validators: SourceValidators | null; config: string | null; };
+
+/** Where a request's records come from: the cache slot, and how to fill it given the copy it holds. */
+type SourceTarget = { key: string; kind: CacheEntry['kind']; listId: string; name: string; load: (current: CachedCopy | null) => Promise<CachedCopy>; };
+
+/**
+ * What a list's on-disk cache holds: the saved version with its parsed records
+ * and the validators to check it against, so a cold start neither downloads
+ * nor parses an unchanged spreadsheet.
+ */
+type DiskCacheRecord = { listId: string; config: string; snapshotId: string; validators: SourceValidators; savedAt: string; };
+
+export const CACHE_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_CACHED_SNAPSHOTS = 2; // Past versions kept in memory besides the live lists, least recently used dropped first.
 
 // --- Caching Logic ---
-// Cache key will now be the API URL if using default, or the direct URL if provided.
-const dataCache = new Map<string, { dataMap: Map<string, Entry>, timestamp: number }>();
+// Configured lists are cached by list id and saved versions by snapshot id; a
+// version that is a list's live copy is served from the list's entry.
+// An expired list keeps being served while it reloads in the background, and
+// a failed reload keeps the last good copy (stale-while-revalidate).
+const dataCache = new Map<string, CacheEntry>();
+const DISK_CACHE = 'source-cache';
 
 // --- Helper Functions ---
-function normalize(value: unknown): string {
-  if (value === null || value === undefined) return '';
-  return String(value).trim().toLowerCase();
-}
-
-function extractField(entry: Entry, possibleFieldNames: string[]): string {
-    const entryKeys = Object.keys(entry);
-    const normalizeKey = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
-    const possibleNormalizedNames = possibleFieldNames.map(normalizeKey);
-    for (const key of entryKeys) {
-        const normalizedKey = normalizeKey(key);
-        if (possibleNormalizedNames.includes(normalizedKey)) {
-            const value = entry[key];
-            if (value !== null && value !== undefined) return String(value).trim();
+function indexRecords(jsonData: Entry[], list: SourceListSummary | null, snapshot: SourceSnapshot | null): LoadedSource {
+    return { records: jsonData, index: buildSourceIndex(jsonData), list, snapshot };
+}
+
+async function buildSource({ rows: jsonData, origin }: LoadedRecords, list: SourceListSummary | null): Promise<LoadedSource> {
+    if (jsonData.length === 0) throw new Error("The data source file is empty.");
+
+    let snapshot: SourceSnapshot | null = null;
+    if (list) {
+        try {
+            snapshot = await recordSnapshot(list, jsonData, origin);
+        } catch (error) {
+            // Versioning is an audit aid; a full or read-only disk must not stop validation.
+            console.error(`SNAPSHOT FAILED for '${list.id}':`, error);
         }
     }
-    return '';
-}
-
-export function extractFullName(entry: Entry): string {
-  const singleFullName = extractField(entry, ['FULL NAME', 'Full Name', 'full name', 'name', 'Name', 'FULLNAME', 'FullName', 'fullname', 'Beneficiary Name']);
-  if (singleFullName) return singleFullName;
-  const firstName = extractField(entry, ['firstname', 'first_name', 'first']);
-  const middleName = extractField(entry, ['middlename', 'middle_name', 'middle']);
-  const lastName = extractField(entry, ['lastname', 'last_name', 'last', 'surname']);
-  const nameParts = [firstName, middleName, lastName].filter(Boolean);
-  if (nameParts.length > 0) return nameParts.join(' ');
-  return '';
-}
-
-function findBestHeaderRowIndex(rows: any[][]): number {
-    let headerRowIndex = 0;
-    let maxKeywords = 0;
-    const headerKeywords = ['ssid', 'nin', 'name', 'id', 'pension', 'account', 'bank', 'verification', 'no', 's/n', 'firstname', 'lastname'];
-    for (let i = 0; i < Math.min(10, rows.length); i++) {
-        const row = rows[i];
-        if (!Array.isArray(row) || row.length === 0) continue;
-        const stringCellCount = row.filter(cell => typeof cell === 'string').length;
-        const totalCellCount = row.filter(cell => cell != null && cell !== '').length;
-        if (totalCellCount < 2 || (stringCellCount / totalCellCount < 0.5)) continue;
-        const rowStr = row.join(' ').toLowerCase();
-        const keywordMatches = headerKeywords.filter(k => rowStr.includes(k)).length;
-        if (keywordMatches > maxKeywords) {
-            maxKeywords = keywordMatches;
-            headerRowIndex = i;
-        }
+
+    const source = indexRecords(jsonData, list, snapshot);
+    console.log(`CACHE POPULATED: Source ${origin} parsed. ${source.records.length} records loaded.`);
+    return source;
+}
+
+async function loadUpload(url: string): Promise<LoadedSource> {
+    const result = await loadRecords({ type: 'url', url });
+    if ('notModified' in result) throw new Error(`Unexpected not-modified answer for ${url}.`);
+    return buildSource(result, null);
+}
+
+/** The list's copy saved by an earlier process, if its config has not changed since. */
+async function restoreFromDisk(config: SourceConfig, list: SourceListSummary): Promise<CachedCopy | null> {
+    try {
+        const saved = await readRecord<DiskCacheRecord>(DISK_CACHE, list.id);
+        if (!saved || saved.config !== JSON.stringify(config)) return null;
+        const snapshot = await getSnapshot(saved.snapshotId);
+        if (!snapshot) return null;
+        const source = indexRecords(await readSnapshotRows(snapshot.id), list, snapshot);
+        console.log(`CACHE RESTORED: '${list.id}' read from disk. ${source.records.length} records loaded.`);
+        return { source, validators: saved.validators, config: saved.config };
+    } catch (error) {
+        console.error(`DISK CACHE UNREADABLE for '${list.id}':`, error);
+        return null;
     }
-    return headerRowIndex;
 }
 
-// --- Core Data Function ---
-export async function getDataSource(providedUrl?: string | null): Promise<Map<string, Entry>> {
-    let urlToFetchContent: string;
-    let cacheKey: string;
-
-    if (providedUrl) {
-        // If a direct file URL is provided (e.g., for custom source uploads in lookup)
-        urlToFetchContent = providedUrl;
-        cacheKey = providedUrl;
+async function saveToDisk(config: SourceConfig, list: SourceListSummary, copy: CachedCopy): Promise<void> {
+    if (!copy.source.snapshot || !copy.validators) return;
+    try {
+        const saved: DiskCacheRecord = { listId: list.id, config: JSON.stringify(config), snapshotId: copy.source.snapshot.id, validators: copy.validators, savedAt: new Date().toISOString() };
+        await writeRecord(DISK_CACHE, list.id, saved);
+    } catch (error) {
+        console.error(`DISK CACHE FAILED for '${list.id}':`, error);
+    }
+}
+
+/**
+ * Loads a configured list, or confirms the current copy is still what the
+ * source holds. A cold start begins from the on-disk copy and revalidates it.
+ */
+async function loadList(config: SourceConfig, list: SourceListSummary, current: CachedCopy | null): Promise<CachedCopy> {
+    const configKey = JSON.stringify(config);
+    const base = current?.config === configKey ? current : await restoreFromDisk(config, list);
+    const result = await loadRecords(config, base?.validators ?? undefined);
+
+    let copy: CachedCopy;
+    if ('notModified' in result) {
+        if (!base) throw new Error(`Unexpected not-modified answer for '${list.id}'.`);
+        console.log(`CACHE REVALIDATED: '${list.id}' is unchanged at its source.`);
+        copy = { source: base.source, validators: result.validators, config: configKey };
     } else {
-        // If no URL is provided, fetch from the default API endpoint first
-        const apiEndpoint = DEFAULT_SOURCE_API_URL;
+        copy = { source: await buildSource(result, list), validators: result.validators, config: configKey };
+    }
+    await saveToDisk(config, list, copy);
+    return copy;
+}
 
-        if (!apiEndpoint) {
-            throw new Error('Default source API URL is not configured. Please set NEXT_PUBLIC_DEFAULT_SOURCE_URL environment variable.');
-        }
+async function listTarget(listId?: string | null): Promise<SourceTarget> {
+    const sourceList = await findSourceList(listId);
+    if (!sourceList) {
+        if (listId) throw new Error(`Unknown master list '${listId}'.`);
+        throw new Error('No master list is configured. Add optimatch.sources.json or set the NEXT_PUBLIC_DEFAULT_SOURCE_URL environment variable.');
+    }
+    const list = summarizeSourceList(sourceList);
+    return { key: `list:${list.id}`, kind: 'list', listId: list.id, name: list.name, load: current => loadList(sourceList.source, list, current) };
+}
 
-        cacheKey = apiEndpoint; // Cache by the API endpoint URL
+async function snapshotTarget(snapshotId: string): Promise<SourceTarget> {
+    const snapshot = await getSnapshot(snapshotId);
+    if (!snapshot) throw new Error(`Unknown master list version '${snapshotId}'.`);
+    return {
+        key: `snapshot:${snapshot.id}`,
+        kind: 'snapshot',
+        listId: snapshot.list.id,
+        name: `${snapshot.list.name} (${snapshot.createdAt})`,
+        load: async () => ({ source: indexRecords(await readSnapshotRows(snapshot.id), snapshot.list, snapshot), validators: null, config: null }),
+    };
+}
 
-        const now = Date.now();
-        const cachedEntry = dataCache.get(cacheKey);
+function cacheEntryFor(target: SourceTarget): CacheEntry {
+    let entry = dataCache.get(target.key);
+    if (!entry) {
+        entry = { kind: target.kind, listId: target.listId, name: target.name, source: null, timestamp: 0, validators: null, config: null, loading: null, lastError: null };
+        dataCache.set(target.key, entry);
+    }
+    return entry;
+}
 
-        if (cachedEntry && (now - cachedEntry.timestamp < CACHE_DURATION_MS)) {
-            console.log(`CACHE HIT: Returning data for API endpoint ${cacheKey}.`);
-            return cachedEntry.dataMap;
+/** Fills a cache entry, sharing one in-flight load between concurrent callers. */
+function reload(entry: CacheEntry, load: SourceTarget['load']): Promise<LoadedSource> {
+    if (entry.loading) return entry.loading;
+    entry.loading = (async () => {
+        try {
+            const { source, validators, config } = await load(entry.source ? { source: entry.source, validators: entry.validators, config: entry.config } : null);
+            // Unchanged content keeps the same source object; only its age resets.
+            entry.source = source;
+            entry.validators = validators;
+            entry.config = config;
+            entry.timestamp = Date.now();
+            entry.lastError = null;
+            return source;
+        } catch (error) {
+            entry.lastError = { message: error instanceof Error ? error.message : 'Unknown error', at: new Date().toISOString() };
+            throw error;
+        } finally {
+            entry.loading = null;
         }
+    })();
+    return entry.loading;
+}
 
-        console.log(`FETCHING API: ${apiEndpoint}`);
-        const apiResponse = await fetch(apiEndpoint);
-        if (!apiResponse.ok) {
-            throw new Error(`Failed to fetch default source info from API: ${apiResponse.statusText}`);
-        }
+/** The live copy of a configured list when it is the requested saved version, so that version is not held twice. */
+function liveSourceForSnapshot(snapshotId: string): LoadedSource | null {
+    for (const entry of dataCache.values()) {
+        if (entry.kind === 'list' && entry.source?.snapshot?.id === snapshotId) return entry.source;
+    }
+    return null;
+}
+
+/** Marks a saved version as just used and drops the least recently used ones beyond the limit. */
+function touchSnapshotEntry(key: string, entry: CacheEntry): void {
+    // The map keeps insertion order, so re-inserting moves the entry to the most recent end.
+    dataCache.delete(key);
+    dataCache.set(key, entry);
+    const snapshotKeys = [...dataCache].filter(([, cached]) => cached.kind === 'snapshot').map(([cachedKey]) => cachedKey);
+    for (const evicted of snapshotKeys.slice(0, -MAX_CACHED_SNAPSHOTS)) {
+        dataCache.delete(evicted);
+        console.log(`CACHE EVICTED: ${evicted}.`);
+    }
+}
+
+function isStale(entry: CacheEntry, now = Date.now()): boolean {
+    // Saved versions never change, so they never expire.
+    return entry.kind === 'list' && entry.source !== null && now - entry.timestamp >= CACHE_DURATION_MS;
+}
+
+function describeIndex(index: SourceIndex): SourceCacheStatus['index'] {
+    return { duplicateSsids: index.collisions.ssid.length, duplicateNins: index.collisions.nin.length, withoutSsid: index.withoutSsid };
+}
 
-        const apiData: { responseCode: number; responseMessage: string; data: { fileUrl: string; }; } = await apiResponse.json(); // Type definition adjusted for the API response structure
+function describeEntry(key: string, entry: CacheEntry): SourceCacheStatus {
+    const now = Date.now();
+    return {
+        key,
+        kind: entry.kind,
+        listId: entry.listId,
+        name: entry.name,
+        loaded: entry.source !== null,
+        recordCount: entry.source ? entry.source.records.length : null,
+        index: entry.source ? describeIndex(entry.source.index) : null,
+        loadedAt: entry.source ? new Date(entry.timestamp).toISOString() : null,
+        ageMs: entry.source ? now - entry.timestamp : null,
+        stale: isStale(entry, now),
+        refreshing: entry.loading !== null,
+        lastError: entry.lastError,
+        snapshotId: entry.source?.snapshot?.id ?? null,
+    };
+}
 
-        if (apiData.responseCode !== 200 || !apiData.data?.fileUrl) { // Check responseCode and existence of fileUrl
-            throw new Error(`API response error or missing file URL: ${apiData.responseMessage || 'Unknown API error'}`);
+// --- Core Data Function ---
+/**
+ * Loads a master list: the uploaded file at `providedUrl` when given, else the
+ * saved version `snapshotId`, else the configured list `listId`, else the
+ * default list. Configured lists are cached, and each new version is saved.
+ */
+export async function getDataSource(providedUrl?: string | null, listId?: string | null, snapshotId?: string | null): Promise<LoadedSource> {
+    // Uploaded sources (e.g., custom source uploads in lookup) are one-off, so they are not cached.
+    if (providedUrl) return loadUpload(providedUrl);
+
+    if (snapshotId) {
+        const live = liveSourceForSnapshot(snapshotId);
+        if (live) {
+            console.log(`CACHE HIT: Version ${snapshotId} is the live copy of '${live.list?.id}'.`);
+            return live;
         }
-        urlToFetchContent = apiData.data.fileUrl; // Extract the actual file URL from the API response
     }
 
-    console.log(`FETCHING CONTENT: ${urlToFetchContent}`);
-    const contentResponse = await fetch(urlToFetchContent);
-    if (!contentResponse.ok) throw new Error(`Failed to fetch data source content from ${urlToFetchContent}: ${contentResponse.statusText}`);
-    
-    const data = await contentResponse.arrayBuffer();
-    const workbook = XLSX.read(data);
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-    
-    const rowsAsArrays: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null });
-    if (rowsAsArrays.length === 0) throw new Error("The data source file is empty.");
-    
-    const headerRowIndex = findBestHeaderRowIndex(rowsAsArrays);
-    const headerArray: string[] = rowsAsArrays[headerRowIndex].map(h => String(h || '').trim());
-    const dataRowsAsArrays = rowsAsArrays.slice(headerRowIndex + 1);
-    
-    const jsonData: Entry[] = dataRowsAsArrays.map(rowArray => {
-        const entry: Entry = {};
-        headerArray.forEach((header, index) => { if (header) entry[header] = rowArray[index]; });
-        return entry;
-    }).filter(obj => Object.values(obj).some(val => val !== null && val !== ''));
-    
-    const dataMap = new Map<string, Entry>();
-    for (const record of jsonData) {
-        const ssid = normalize(extractField(record, ['SSID', 'ssid']));
-        if (ssid) dataMap.set(ssid, record);
+    const target = snapshotId ? await snapshotTarget(snapshotId) : await listTarget(listId);
+    const entry = cacheEntryFor(target);
+    if (target.kind === 'snapshot') touchSnapshotEntry(target.key, entry);
+
+    if (!entry.source) return reload(entry, target.load);
+    if (isStale(entry)) {
+        console.log(`CACHE STALE: Serving ${target.key} while it reloads.`);
+        reload(entry, target.load).catch(error => console.error(`CACHE REFRESH FAILED for ${target.key}; keeping the last good copy:`, error));
+    } else {
+        console.log(`CACHE HIT: Returning data for ${target.key}.`);
+    }
+    return entry.source;
+}
+
+/**
+ * Reloads a configured list (the default list when no id is given) and waits
+ * for it. If the reload fails the error is thrown, and the cached copy stays.
+ */
+export async function refreshDataSource(listId?: string | null): Promise<SourceCacheStatus> {
+    const target = await listTarget(listId);
+    const entry = cacheEntryFor(target);
+    await reload(entry, target.load);
+    return describeEntry(target.key, entry);
+}
+
+/** Every configured list, loaded or not, followed by any saved versions held in the cache. */
+export async function getDataSourceStatus(): Promise<SourceCacheStatus[]> {
+    const { lists } = await getSourceLists();
+    const statuses = lists.map(sourceList => {
+        const key = `list:${sourceList.id}`;
+        const entry = dataCache.get(key) ?? { kind: 'list' as const, listId: sourceList.id, name: sourceList.name, source: null, timestamp: 0, validators: null, config: null, loading: null, lastError: null };
+        return describeEntry(key, entry);
+    });
+    for (const [key, entry] of dataCache) {
+        if (entry.kind === 'snapshot') statuses.push(describeEntry(key, entry));
     }
-    
-    dataCache.set(cacheKey, { dataMap, timestamp: Date.now() }); // Cache using the determined cacheKey
-    console.log(`CACHE POPULATED: Source ${urlToFetchContent} parsed. ${dataMap.size} records loaded.`);
-    return dataMap;
+    return statuses;
 }
 
 // --- CACHE WARMING LOGIC ---
 (async () => {
     try {
-        console.log('CACHE WARMER: Initializing default data source via API...');
-        // Call getDataSource without a URL to trigger loading of the default source via the API
+        console.log('CACHE WARMER: Initializing default master list...');
+        // Call getDataSource without a URL or list to trigger loading of the default list
         await getDataSource(); 
     } catch (error) {
         console.error('CACHE WARMER FAILED:', error);
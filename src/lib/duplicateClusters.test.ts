@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateClusters } from '@/lib/duplicateClusters';
+import { DEFAULT_MATCH_CONFIG } from '@/lib/matcher';
+
+const cluster = (entries: Record<string, string>[]) => findDuplicateClusters(entries, undefined, DEFAULT_MATCH_CONFIG);
+
+describe('findDuplicateClusters', () => {
+  it('groups rows sharing an SSID', () => {
+    const clusters = cluster([
+      { SSID: 'SS1001', 'Full Name': 'Adebayo Ogunleye' },
+      { SSID: 'SS1002', 'Full Name': 'Chiamaka Eze' },
+      { SSID: 'ss1001 ', 'Full Name': 'Tunde Bakare' },
+    ]);
+    expect(clusters).toEqual([{ id: 'D1', rows: [0, 2], confidence: 100, basis: ['SSID'] }]);
+  });
+
+  it('joins a chain of links into one cluster held at its weakest link', () => {
+    const clusters = cluster([
+      { SSID: 'SS1001', NIN: '12345678901', 'Full Name': 'Adebayo Ogunleye' },
+      { SSID: 'SS1002', NIN: '12345678901', 'Full Name': 'Bayo Ogunleye', 'Account Number': '0123456789' },
+      { SSID: 'SS1003', 'Full Name': 'Funmilayo Ogunleye', 'Account Number': '123456789' },
+    ]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].rows).toEqual([0, 1, 2]);
+    expect(clusters[0].confidence).toBe(60);
+    expect(clusters[0].basis).toEqual(['NIN', 'Bank account']);
+  });
+
+  it('groups similar names only when they also agree on an extra field', () => {
+    const clusters = cluster([
+      { SSID: 'SS1001', 'Full Name': 'Adebayo Ogunleye', DOB: '1990-03-05' },
+      { SSID: 'SS1002', 'Full Name': 'Adebayo Ogunleyi', DOB: '05/03/1990' },
+      { SSID: 'SS1003', 'Full Name': 'Adebayo Ogunleye', DOB: '1984-11-20' },
+      { SSID: 'SS1004', 'Full Name': 'Chiamaka Eze', DOB: '1990-03-05' },
+    ]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].rows).toEqual([0, 1]);
+    expect(clusters[0].basis).toEqual(['Similar name + Date of birth']);
+    expect(clusters[0].confidence).toBeLessThan(100);
+  });
+
+  it('numbers clusters in order of their first row', () => {
+    const clusters = cluster([
+      { SSID: 'SS1001', NIN: '1', 'Full Name': 'A' },
+      { SSID: 'SS1002', NIN: '2', 'Full Name': 'B' },
+      { SSID: 'SS1002', NIN: '3', 'Full Name': 'C' },
+      { SSID: 'SS1004', NIN: '1', 'Full Name': 'D' },
+    ]);
+    expect(clusters.map(({ id, rows }) => ({ id, rows }))).toEqual([{ id: 'D1', rows: [0, 3] }, { id: 'D2', rows: [1, 2] }]);
+  });
+
+  it('finds nothing in a file without repeats', () => {
+    expect(cluster([{ SSID: 'SS1001', 'Full Name': 'Adebayo Ogunleye' }, { SSID: 'SS1002', 'Full Name': 'Chiamaka Eze' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+// File: src/lib/duplicateClusters.ts
+// Groups the rows of one submission that look like the same person: a shared
+// SSID or NIN, a shared bank account, or similar names that also agree on a
+// date of birth, phone, account number or BVN. Clusters are leads for a
+// reviewer; the matcher's verdict on each row is left as it is.
+
+import { type ColumnMapping, type Entry, type ExtraFieldRole, EXTRA_FIELD_LABELS, EXTRA_FIELD_ROLES, normalize } from '@/lib/fields';
+import { compareFieldValues, fieldReadings } from '@/lib/fieldComparison';
+import { type MatchConfig, type MatchSubject, compareNames, toMatchSubject } from '@/lib/matcher';
+import { nameTokens, soundex } from '@/lib/nameIndex';
+
+// --- Type Definitions ---
+/**
+ * Rows suspected to be one person, by position in the file. `confidence` is
+ * that of the weakest link holding the cluster together; `basis` names the
+ * kinds of link, e.g. 'NIN' or 'Similar name + Date of birth'.
+ */
+export type DuplicateCluster = { id: string; rows: number[]; confidence: number; basis: string[]; };
+
+type Link = { a: number; b: number; confidence: number; basis: string; };
+
+// --- Configuration Constants ---
+const SSID_CONFIDENCE = 100;
+const NIN_CONFIDENCE = 95;
+const ACCOUNT_CONFIDENCE = 60; // Relatives and agents share accounts, so an account alone is a weak sign.
+const SINGLE_ATTRIBUTE_FACTOR = 0.9; // A similar name agreeing on one attribute rather than several.
+const BLOCK_WINDOW = 50; // Earlier rows of a block each row is compared with, so a common name on a common date stays near linear.
+
+// --- Helper Functions ---
+function readings(subject: MatchSubject, field: ExtraFieldRole): string[] {
+  return fieldReadings(field, subject.extras?.[field] ?? '');
+}
+
+/** Links each row to the previous row with the same key; a chain is enough to join them all. */
+function linkByKey(subjects: MatchSubject[], keysOf: (subject: MatchSubject) => string[], confidence: number, basis: string): Link[] {
+  const lastWithKey = new Map<string, number>();
+  const links: Link[] = [];
+  subjects.forEach((subject, index) => {
+    for (const key of keysOf(subject)) {
+      if (!key) continue;
+      const previous = lastWithKey.get(key);
+      if (previous !== undefined) links.push({ a: previous, b: index, confidence, basis });
+      lastWithKey.set(key, index);
+    }
+  });
+  return links;
+}
+
+/**
+ * Links rows whose names score at least the profile's threshold and that
+ * agree on at least one extra field. Only rows sharing a field value and the
+ * sound of a name token are compared, so the work stays near linear.
+ */
+function linkBySimilarName(subjects: MatchSubject[], config: MatchConfig): Link[] {
+  const blocks = new Map<string, number[]>();
+  subjects.forEach((subject, index) => {
+    const codes = new Set(nameTokens(subject.name).map(soundex));
+    for (const field of EXTRA_FIELD_ROLES) {
+      for (const reading of readings(subject, field)) {
+        for (const code of codes) {
+          const key = `${field}:${reading}:${code}`;
+          const block = blocks.get(key);
+          if (block) block.push(index);
+          else blocks.set(key, [index]);
+        }
+      }
+    }
+  });
+
+  const compared = new Set<string>();
+  const links: Link[] = [];
+  for (const block of blocks.values()) {
+    for (let j = 1; j < block.length; j++) {
+      for (let i = Math.max(0, j - BLOCK_WINDOW); i < j; i++) {
+        const [a, b] = [block[i], block[j]];
+        if (compared.has(`${a}:${b}`)) continue;
+        compared.add(`${a}:${b}`);
+
+        const { score } = compareNames(subjects[a].name, subjects[b].name, config);
+        if (score < config.nameThreshold) continue;
+        const shared = EXTRA_FIELD_ROLES.filter(field => compareFieldValues(field, subjects[a].extras?.[field] ?? '', subjects[b].extras?.[field] ?? '') === 'Match');
+        if (shared.length === 0) continue;
+        links.push({
+          a,
+          b,
+          confidence: Math.round(score * (shared.length > 1 ? 1 : SINGLE_ATTRIBUTE_FACTOR)),
+          basis: `Similar name + ${shared.map(field => EXTRA_FIELD_LABELS[field]).join(', ')}`,
+        });
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Joins linked rows strongest link first, so each cluster is held together
+ * by the strongest links available and its weakest one is its confidence.
+ * Clusters are numbered in order of their first row.
+ */
+function buildClusters(count: number, links: Link[]): DuplicateCluster[] {
+  const parent = Array.from({ length: count }, (_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const joined = new Map<number, { confidence: number; basis: Set<string>; }>();
+  for (const link of [...links].sort((x, y) => y.confidence - x.confidence || x.a - y.a || x.b - y.b)) {
+    const [rootA, rootB] = [find(link.a), find(link.b)];
+    if (rootA === rootB) continue;
+    const [clusterA, clusterB] = [joined.get(rootA), joined.get(rootB)];
+    parent[rootB] = rootA;
+    joined.delete(rootB);
+    joined.set(rootA, {
+      confidence: Math.min(link.confidence, clusterA?.confidence ?? link.confidence, clusterB?.confidence ?? link.confidence),
+      basis: new Set([...(clusterA?.basis ?? []), ...(clusterB?.basis ?? []), link.basis]),
+    });
+  }
+
+  const rowsByRoot = new Map<number, number[]>();
+  for (let index = 0; index < count; index++) {
+    const root = find(index);
+    if (!joined.has(root)) continue;
+    const rows = rowsByRoot.get(root);
+    if (rows) rows.push(index);
+    else rowsByRoot.set(root, [index]);
+  }
+
+  return Array.from(rowsByRoot.entries()).map(([root, rows], index) => {
+    const cluster = joined.get(root);
+    return { id: `D${index + 1}`, rows, confidence: cluster?.confidence ?? 0, basis: Array.from(cluster?.basis ?? []) };
+  });
+}
+
+// --- Public API ---
+export function findDuplicateClusters(entries: Entry[], mapping: ColumnMapping | undefined, config: MatchConfig): DuplicateCluster[] {
+  const subjects = entries.map(entry => toMatchSubject(entry, mapping, EXTRA_FIELD_ROLES));
+  const links = [
+    ...linkByKey(subjects, subject => [normalize(subject.ssid)], SSID_CONFIDENCE, 'SSID'),
+    ...linkByKey(subjects, subject => [normalize(subject.nin)], NIN_CONFIDENCE, 'NIN'),
+    ...linkByKey(subjects, subject => readings(subject, 'accountNumber'), ACCOUNT_CONFIDENCE, 'Bank account'),
+    ...linkBySimilarName(subjects, config),
+  ];
+  return buildClusters(entries.length, links);
+}
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { compareFieldValues, fieldReadings } from '@/lib/fieldComparison';
+
+describe('fieldReadings for dates of birth', () => {
+  it('reads ISO dates, spreadsheet serials and written months alike', () => {
+    for (const value of ['1990-03-05', '32937', '5 Mar 1990', 'March 5, 1990', '05-March-90']) {
+      expect(fieldReadings('dob', value)).toEqual(['1990-03-05']);
+    }
+  });
+
+  it('reads a numeric date day-first, and month-first when both parts could be a month', () => {
+    expect(fieldReadings('dob', '05/03/1990')).toEqual(['1990-03-05', '1990-05-03']);
+    expect(fieldReadings('dob', '25/03/1990')).toEqual(['1990-03-25']);
+  });
+
+  it('rejects impossible dates and unreadable text', () => {
+    expect(fieldReadings('dob', '31/02/1990')).toEqual([]);
+    expect(fieldReadings('dob', 'unknown')).toEqual([]);
+  });
+
+  describe('east of UTC', () => {
+    const originalTz = process.env.TZ;
+    beforeEach(() => { process.env.TZ = 'Africa/Lagos'; });
+    afterEach(() => { process.env.TZ = originalTz; });
+
+    it('keeps the calendar date of a value only Date.parse understands', () => {
+      expect(fieldReadings('dob', 'Mon Mar 05 1990')).toEqual(['1990-03-05']);
+      expect(fieldReadings('dob', 'March 5, 1990')).toEqual(['1990-03-05']);
+    });
+  });
+});
+
+describe('compareFieldValues', () => {
+  it('matches dates written differently', () => {
+    expect(compareFieldValues('dob', '05/03/1990', '1990-03-05')).toBe('Match');
+    expect(compareFieldValues('dob', '05/03/1990', '1991-03-05')).toBe('Mismatch');
+  });
+
+  it('matches phone numbers in international and local form', () => {
+    expect(compareFieldValues('phone', '+234 803 123 4567', '08031234567')).toBe('Match');
+    expect(compareFieldValues('phone', '8031234567', '08031234567')).toBe('Match');
+    expect(compareFieldValues('phone', '08031234567', '08031234568')).toBe('Mismatch');
+  });
+
+  it('restores the leading zeros a spreadsheet dropped from an account number', () => {
+    expect(compareFieldValues('accountNumber', '12345678', '0012345678')).toBe('Match');
+  });
+
+  it('compares BVNs by their digits', () => {
+    expect(compareFieldValues('bvn', '2234-5678-901', '22345678901')).toBe('Match');
+  });
+
+  it('does not compare a field missing or unreadable on either side', () => {
+    expect(compareFieldValues('dob', '', '1990-03-05')).toBe('Not Compared');
+    expect(compareFieldValues('dob', 'unknown', '1990-03-05')).toBe('Not Compared');
+  });
+});
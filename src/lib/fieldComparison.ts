@@ -0,0 +1,141 @@
+// File: src/lib/fieldComparison.ts
+
+import { type Entry, type ColumnMapping, type ExtraFieldRole, EXTRA_FIELD_LABELS, extractRole } from '@/lib/fields';
+
+// --- Type Definitions ---
+export type FieldCheckStatus = 'Match' | 'Mismatch' | 'Not Compared';
+
+/** The outcome of comparing one extra field between an entry and its matched source record. */
+export type FieldCheck = {
+  field: ExtraFieldRole;
+  status: FieldCheckStatus;
+  entryValue: string;
+  sourceValue: string;
+};
+
+// --- Configuration Constants ---
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30); // Day zero of spreadsheet serial dates.
+const MS_PER_DAY = 86400000;
+const NUBAN_LENGTH = 10;
+
+// --- Canonical Forms ---
+function digitsOnly(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null; // e.g. 31/02
+  return date.toISOString().slice(0, 10);
+}
+
+function fullYear(year: number): number {
+  if (year >= 100) return year;
+  return year + (year > new Date().getFullYear() % 100 ? 1900 : 2000);
+}
+
+/**
+ * Every calendar date a date of birth could denote, as YYYY-MM-DD. Accepts
+ * spreadsheet serial numbers, ISO dates, day/month/year with any separator
+ * (read day-first, and also month-first when both parts could be a month),
+ * and written months such as '3 Feb 1985' or 'Feb 3, 1985'.
+ */
+function dateReadings(value: string): string[] {
+  const text = value.trim().toLowerCase();
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const serial = Math.floor(Number(text));
+    return [new Date(EXCEL_EPOCH_MS + serial * MS_PER_DAY).toISOString().slice(0, 10)];
+  }
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return [isoDate(Number(match[1]), Number(match[2]), Number(match[3]))].filter((d): d is string => d !== null);
+
+  match = text.match(/^(\d{1,2})[-/. ](\d{1,2})[-/. ](\d{2,4})$/);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), fullYear(Number(match[3]))];
+    const readings = [isoDate(year, second, first), isoDate(year, first, second)];
+    return Array.from(new Set(readings.filter((d): d is string => d !== null)));
+  }
+
+  match = text.match(/^(\d{1,2})[-/. ]*([a-z]{3})[a-z]*[-/., ]*(\d{2,4})$/);
+  if (match && MONTHS.includes(match[2])) {
+    const date = isoDate(fullYear(Number(match[3])), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+    return date ? [date] : [];
+  }
+  match = text.match(/^([a-z]{3})[a-z]*[-/. ]*(\d{1,2}),?[-/. ]*(\d{2,4})$/);
+  if (match && MONTHS.includes(match[1])) {
+    const date = isoDate(fullYear(Number(match[3])), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+    return date ? [date] : [];
+  }
+
+  // Date.parse reads a date without a zone as local midnight, which east of UTC
+  // falls on the previous day in UTC; so take the local calendar date.
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) return [];
+  const date = new Date(parsed);
+  return [isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate())].filter((d): d is string => d !== null);
+}
+
+/** Nigerian numbers in local form: '+234 803 ...', '234803...' and '803...' all become '0803...'. */
+function canonicalPhone(value: string): string {
+  const digits = digitsOnly(value);
+  if (digits.startsWith('234') && digits.length === 13) return `0${digits.slice(3)}`;
+  if (digits.length === 10 && !digits.startsWith('0')) return `0${digits}`; // Leading zero lost in a numeric cell.
+  return digits;
+}
+
+/** NUBAN account numbers are ten digits; a spreadsheet may have dropped the leading zeros. */
+function canonicalAccountNumber(value: string): string {
+  const digits = digitsOnly(value);
+  return digits.length > 0 && digits.length < NUBAN_LENGTH ? digits.padStart(NUBAN_LENGTH, '0') : digits;
+}
+
+const FIELD_READINGS: Record<ExtraFieldRole, (value: string) => string[]> = {
+  dob: dateReadings,
+  phone: value => [canonicalPhone(value)].filter(Boolean),
+  accountNumber: value => [canonicalAccountNumber(value)].filter(Boolean),
+  bvn: value => [digitsOnly(value)].filter(Boolean),
+};
+
+// --- Comparison ---
+/** Reads the configured extra fields of an entry, through its column mapping when given. */
+export function extractExtraFields(entry: Entry, fields: readonly ExtraFieldRole[], mapping?: ColumnMapping): Partial<Record<ExtraFieldRole, string>> {
+  const values: Partial<Record<ExtraFieldRole, string>> = {};
+  for (const field of fields) {
+    const value = extractRole(entry, field, mapping);
+    if (value) values[field] = value;
+  }
+  return values;
+}
+
+/**
+ * Compares each field after reducing both values to canonical form. A field
+ * is only compared when both sides hold a readable value; values that agree
+ * under any of their readings (e.g. an ambiguous 03/04 date) match.
+ */
+export function compareExtraFields(entryValues: Partial<Record<ExtraFieldRole, string>>, sourceRecord: Entry, fields: readonly ExtraFieldRole[]): FieldCheck[] {
+  return fields.map(field => {
+    const entryValue = entryValues[field] ?? '';
+    const sourceValue = extractRole(sourceRecord, field);
+    return { field, status: compareFieldValues(field, entryValue, sourceValue), entryValue, sourceValue };
+  });
+}
+
+/** The canonical readings of a value, e.g. every date an ambiguous date of birth could denote. */
+export function fieldReadings(field: ExtraFieldRole, value: string): string[] {
+  return value ? FIELD_READINGS[field](value) : [];
+}
+
+/** Compares two values of one extra field in canonical form; 'Not Compared' unless both are readable. */
+export function compareFieldValues(field: ExtraFieldRole, a: string, b: string): FieldCheckStatus {
+  const aReadings = fieldReadings(field, a);
+  const bReadings = fieldReadings(field, b);
+  if (aReadings.length === 0 || bReadings.length === 0) return 'Not Compared';
+  return aReadings.some(reading => bReadings.includes(reading)) ? 'Match' : 'Mismatch';
+}
+
+export function describeFieldMismatch(check: FieldCheck): string {
+  return `${EXTRA_FIELD_LABELS[check.field]} mismatch`;
+}
@@ -0,0 +1,134 @@
+// File: src/lib/fields.ts
+
+// --- Type Definitions ---
+export type Entry = { [key: string]: unknown; };
+
+/** Fields compared alongside SSID, NIN and name when a matching profile asks for them. */
+export const EXTRA_FIELD_ROLES = ['dob', 'phone', 'accountNumber', 'bvn'] as const;
+export type ExtraFieldRole = typeof EXTRA_FIELD_ROLES[number];
+
+export const EXTRA_FIELD_LABELS: Record<ExtraFieldRole, string> = {
+  dob: 'Date of birth',
+  phone: 'Phone',
+  accountNumber: 'Account number',
+  bvn: 'BVN',
+};
+
+/** The roles a spreadsheet column can play. */
+export type ColumnRole = 'ssid' | 'nin' | 'fullName' | 'firstName' | 'middleName' | 'lastName' | ExtraFieldRole;
+
+/** Maps each role to the header of the column that holds it. */
+export type ColumnMapping = Partial<Record<ColumnRole, string>>;
+
+// --- Column Aliases ---
+// Header names are compared after lower-casing and stripping non-alphanumerics,
+// so 'Full Name', 'FULL_NAME' and 'fullname' all resolve to the same alias.
+export const SSID_FIELDS = ['SSID', 'SocialSecurity', 'SSN'];
+export const NIN_FIELDS = ['NIN', 'NationalID'];
+export const FULL_NAME_FIELDS = ['FULL NAME', 'name', 'Beneficiary Name', 'Customer Name', 'Person Name'];
+export const FIRST_NAME_FIELDS = ['firstname', 'first_name', 'first'];
+export const MIDDLE_NAME_FIELDS = ['middlename', 'middle_name', 'middle'];
+export const LAST_NAME_FIELDS = ['lastname', 'last_name', 'last', 'surname'];
+export const DOB_FIELDS = ['DOB', 'Date of Birth', 'Birth Date', 'Birthdate'];
+export const PHONE_FIELDS = ['Phone', 'Phone Number', 'Phone No', 'Mobile', 'Mobile Number', 'GSM', 'GSM Number', 'Telephone'];
+export const ACCOUNT_NUMBER_FIELDS = ['Account Number', 'Account No', 'Acct No', 'Bank Account', 'NUBAN'];
+export const BVN_FIELDS = ['BVN', 'Bank Verification Number'];
+
+export const COLUMN_ALIASES: Record<ColumnRole, string[]> = {
+  ssid: SSID_FIELDS,
+  nin: NIN_FIELDS,
+  fullName: FULL_NAME_FIELDS,
+  firstName: FIRST_NAME_FIELDS,
+  middleName: MIDDLE_NAME_FIELDS,
+  lastName: LAST_NAME_FIELDS,
+  dob: DOB_FIELDS,
+  phone: PHONE_FIELDS,
+  accountNumber: ACCOUNT_NUMBER_FIELDS,
+  bvn: BVN_FIELDS,
+};
+
+// --- Helper Functions ---
+export function normalize(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim().toLowerCase();
+}
+
+export function normalizeKey(str: string): string {
+  return str.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Returns the trimmed value of the first column whose header matches one of the
+ * given aliases, or an empty string when no such column holds a value.
+ */
+export function extractField(entry: Entry, possibleFieldNames: string[]): string {
+    const possibleNormalizedNames = possibleFieldNames.map(normalizeKey);
+    for (const key of Object.keys(entry)) {
+        if (possibleNormalizedNames.includes(normalizeKey(key))) {
+            const value = entry[key];
+            if (value !== null && value !== undefined) return String(value).trim();
+        }
+    }
+    return '';
+}
+
+/**
+ * Reads a role from an entry. With a column mapping, only the mapped header is
+ * read (an unmapped role is empty); without one, the role's aliases are tried.
+ */
+export function extractRole(entry: Entry, role: ColumnRole, mapping?: ColumnMapping): string {
+  if (!mapping) return extractField(entry, COLUMN_ALIASES[role]);
+  const header = mapping[role];
+  if (!header) return '';
+  const value = entry[header];
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+export function extractSSID(entry: Entry, mapping?: ColumnMapping): string {
+  return extractRole(entry, 'ssid', mapping);
+}
+
+export function extractNIN(entry: Entry, mapping?: ColumnMapping): string {
+  return extractRole(entry, 'nin', mapping);
+}
+
+export function extractFullName(entry: Entry, mapping?: ColumnMapping): string {
+  const singleFullName = extractRole(entry, 'fullName', mapping);
+  if (singleFullName) return singleFullName;
+  const firstName = extractRole(entry, 'firstName', mapping);
+  const middleName = extractRole(entry, 'middleName', mapping);
+  const lastName = extractRole(entry, 'lastName', mapping);
+  const nameParts = [firstName, middleName, lastName].filter(Boolean);
+  if (nameParts.length > 0) return nameParts.join(' ');
+  return '';
+}
+
+/** Guesses which header holds each role, using the same aliases as `extractField`. */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const role of Object.keys(COLUMN_ALIASES) as ColumnRole[]) {
+    const aliases = COLUMN_ALIASES[role].map(normalizeKey);
+    const header = headers.find(h => aliases.includes(normalizeKey(h)));
+    if (header) mapping[role] = header;
+  }
+  return mapping;
+}
+
+/**
+ * A stable key for a header layout, so a mapping saved for one file can be
+ * offered again for later files with the same columns in any order.
+ */
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeKey).filter(Boolean).sort().join('|');
+}
+
+/** Checks that a mapping only uses known roles and refers to headers present in the file. */
+export function validateColumnMapping(mapping: unknown, headers: string[]): string | null {
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) return 'columnMapping must be an object.';
+  for (const [role, header] of Object.entries(mapping)) {
+    if (!(role in COLUMN_ALIASES)) return `Unknown column role '${role}'.`;
+    if (header === undefined || header === null || header === '') continue;
+    if (typeof header !== 'string' || !headers.includes(header)) return `Column '${String(header)}' mapped to ${role} was not found in the file.`;
+  }
+  return null;
+}
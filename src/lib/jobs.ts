@@ -0,0 +1,212 @@
+// File: src/lib/jobs.ts
+// Background validation jobs for files too large to validate within one
+// request. Jobs run one at a time in this server process, batch by batch; the
+// job document and its rows are persisted after every batch, so a restarted
+// server picks up unfinished jobs where they stopped.
+
+import { appendLines, deleteLines, listRecords, newRecordId, readLines, readRecord, truncateLines, writeRecord } from '@/lib/store';
+import { recordSubmittedRows, recordSubmittedRun } from '@/lib/submissionHistory';
+import {
+  type ProcessedEntry,
+  type ValidationProgress,
+  type ValidationRequest,
+  type ValidationSummary,
+  MAX_ASYNC_ENTRIES_LIMIT,
+  prepareValidation,
+  runValidation,
+  validationHeaders,
+} from '@/lib/validation';
+
+// --- Type Definitions ---
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ValidationJob = {
+  id: string;
+  status: JobStatus;
+  fileName: string;
+  request: ValidationRequest;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: ValidationProgress | null;
+  headers?: string[];
+  summary?: ValidationSummary;
+  error?: string;
+};
+
+export type JobResults = { headers: string[]; results: ProcessedEntry[]; summary?: ValidationSummary; };
+
+// --- Configuration Constants ---
+const JOBS = 'jobs';
+const JOB_ROWS = 'job-rows';
+
+// --- Runner State ---
+const queue: string[] = [];
+const runningControllers = new Map<string, AbortController>();
+let draining = false;
+let resumed = false;
+
+// --- Helper Functions ---
+async function saveJob(job: ValidationJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await writeRecord(JOBS, job.id, job);
+}
+
+function isActive(job: ValidationJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+async function runJob(id: string): Promise<void> {
+  const job = await readRecord<ValidationJob>(JOBS, id);
+  if (!job || !isActive(job)) return;
+
+  const abortController = new AbortController();
+  runningControllers.set(id, abortController);
+  job.status = 'running';
+  job.startedAt = job.startedAt ?? new Date().toISOString();
+  await saveJob(job);
+
+  try {
+    const prepared = await prepareValidation(job.request, MAX_ASYNC_ENTRIES_LIMIT, job.id);
+    if ('error' in prepared) throw new Error(prepared.error);
+    job.headers = validationHeaders(prepared);
+    // Pin the master list version, so a resumed or re-run job sees the same records.
+    if (prepared.snapshot) job.request = { ...job.request, snapshot: prepared.snapshot.id };
+
+    // Rows appended after the last saved progress (a crash between the two writes) are dropped and redone.
+    const resumeFrom = job.progress && job.progress.processed > 0 ? job.progress : undefined;
+    if (resumeFrom) await truncateLines(JOB_ROWS, id, resumeFrom.processed);
+    else await deleteLines(JOB_ROWS, id);
+    await recordSubmittedRun({ id, fileName: job.fileName, submittedAt: job.createdAt, toValidateUrl: job.request.toValidateUrl as string });
+
+    const { summary } = await runValidation(prepared, {
+      signal: abortController.signal,
+      resumeFrom,
+      onBatch: async (rows, progress) => {
+        await appendLines(JOB_ROWS, id, rows);
+        await recordSubmittedRows(id, rows, progress.processed - rows.length, prepared.mapping);
+        job.progress = progress;
+        await saveJob(job);
+      },
+    });
+
+    job.status = 'completed';
+    job.summary = summary;
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      job.status = 'cancelled';
+    } else {
+      console.error(`Validation job ${id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  } finally {
+    runningControllers.delete(id);
+  }
+  job.finishedAt = new Date().toISOString();
+  await saveJob(job);
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      try {
+        await runJob(id);
+      } catch (error) {
+        console.error(`Validation job ${id} could not be run:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+/** Queues jobs left unfinished by a previous server process, oldest first. Runs once per process. */
+async function resumeInterruptedJobs(): Promise<void> {
+  if (resumed) return;
+  resumed = true;
+  const unfinished = (await listRecords<ValidationJob>(JOBS)).filter(isActive).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of unfinished) {
+    if (!queue.includes(job.id)) queue.push(job.id);
+  }
+  if (unfinished.length > 0) void drainQueue();
+}
+
+// --- Public API ---
+export async function createValidationJob(request: ValidationRequest, fileName?: string): Promise<ValidationJob> {
+  await resumeInterruptedJobs();
+  const now = new Date().toISOString();
+  const job: ValidationJob = {
+    id: newRecordId(),
+    status: 'queued',
+    fileName: fileName || 'Validation file',
+    request,
+    createdAt: now,
+    updatedAt: now,
+    progress: null,
+  };
+  await writeRecord(JOBS, job.id, job);
+  queue.push(job.id);
+  void drainQueue();
+  return job;
+}
+
+export async function getJob(id: string): Promise<ValidationJob | null> {
+  await resumeInterruptedJobs();
+  return readRecord<ValidationJob>(JOBS, id);
+}
+
+/** All jobs, newest first. */
+export async function listJobs(): Promise<ValidationJob[]> {
+  await resumeInterruptedJobs();
+  return (await listRecords<ValidationJob>(JOBS)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The rows a job has produced: all of them once it completed, or those
+ * processed before it was cancelled; only the first `limit` when given.
+ * Null for unknown or unfinished jobs.
+ */
+export async function getJobResults(id: string, limit?: number): Promise<JobResults | null> {
+  const job = await readRecord<ValidationJob>(JOBS, id);
+  if (!job || (job.status !== 'completed' && job.status !== 'cancelled')) return null;
+  const processed = job.progress?.processed ?? 0;
+  const results = await readLines<ProcessedEntry>(JOB_ROWS, id, limit === undefined ? processed : Math.min(limit, processed));
+  return { headers: job.headers ?? [], results, summary: job.summary };
+}
+
+/**
+ * Queues a new job with the same file, settings and master list version as
+ * an earlier one. Returns `{ error }` when the earlier job never got as far
+ * as pinning a version, or null if it does not exist.
+ */
+export async function rerunJob(id: string): Promise<ValidationJob | { error: string; } | null> {
+  const job = await readRecord<ValidationJob>(JOBS, id);
+  if (!job) return null;
+  if (!job.request.snapshot) return { error: 'This job has no recorded master list version to re-run against.' };
+  return createValidationJob(job.request, job.fileName);
+}
+
+/** Stops a queued or running job. Returns the job as it stands, or null if it does not exist. */
+export async function cancelJob(id: string): Promise<ValidationJob | null> {
+  const job = await readRecord<ValidationJob>(JOBS, id);
+  if (!job) return null;
+
+  const running = runningControllers.get(id);
+  if (running) {
+    running.abort();
+    return job; // The runner records the cancellation once the current batch ends.
+  }
+  if (isActive(job)) {
+    const index = queue.indexOf(id);
+    if (index !== -1) queue.splice(index, 1);
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    await saveJob(job);
+  }
+  return job;
+}
@@ -0,0 +1,153 @@
+// File: src/lib/lookup.ts
+// The lookup behind /api/lookup and /api/v1/lookup: check SSIDs, with the
+// names submitted for them when given, against the chosen master list.
+
+import { getDataSource } from '@/lib/dataSource';
+import { extractSSID, extractFullName } from '@/lib/fields';
+import { type MatchConfig, type NameCandidate, findCandidates, matchEntry } from '@/lib/matcher';
+import { type MatchingProfile, resolveMatchingProfile, validateMatchingProfile } from '@/lib/matchingProfiles';
+import { type IngestionReport, type SheetSelection, SHEET_COLUMN, isSheetNotFoundError, isSheetSelection, parseSpreadsheet } from '@/lib/parseExcel';
+import { findSourceList } from '@/lib/sourceLists';
+
+// --- Type Definitions ---
+export type LookupItem = { ssid: string; nameToVerify?: string | null; sheet?: string; };
+export type LookupResult = { ssid: string; sheet?: string; nameToVerify: string; correctNameInSystem: string; nameSimilarity?: number; suggestedSsid?: string; nameRules?: string[]; nameCandidates?: NameCandidate[]; status: 'Match' | 'Mismatch' | 'Not Found' | 'Lookup Success' | 'Probable Typo' | 'Needs Identifier'; };
+
+/** The request body fields a lookup is configured from. */
+export type LookupRequest = { lookups?: unknown; sourceUrl?: unknown; sourceList?: unknown; batchFileUrl?: unknown; sheets?: unknown; profile?: unknown; };
+
+export type LookupResponse = {
+  results: LookupResult[];
+  sourceRecordCount: number;
+  sourceUsed: string;
+  ingestion?: IngestionReport;
+  matchingProfile: MatchingProfile;
+};
+
+// --- Helper Functions ---
+function isLookupItem(item: unknown): item is LookupItem {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) return false;
+  const { ssid, nameToVerify } = item as Record<string, unknown>;
+  return typeof ssid === 'string' && (nameToVerify === undefined || nameToVerify === null || typeof nameToVerify === 'string');
+}
+
+// --- Public API ---
+/**
+ * Looks up the given items, or the rows of a batch file: downloaded from
+ * `batchFileUrl`, or passed as `batchFile` when it was sent with the request.
+ * Returns `{ error }` for a request the caller should reject as bad input.
+ */
+export async function runLookup(request: LookupRequest, batchFile?: ArrayBuffer): Promise<LookupResponse | { error: string; }> {
+  let lookups: unknown = request.lookups;
+  const customSourceUrl = request.sourceUrl as string | null | undefined;
+  const sourceListId = request.sourceList as string | null | undefined;
+  const batchFileUrl = request.batchFileUrl as string | undefined;
+  const sheets = request.sheets;
+
+  if (request.profile !== undefined && request.profile !== null) {
+    const profileError = validateMatchingProfile(request.profile);
+    if (profileError) return { error: profileError };
+  }
+  if (sourceListId !== undefined && sourceListId !== null) {
+    if (typeof sourceListId !== 'string' || !(await findSourceList(sourceListId))) {
+      return { error: `Unknown master list '${String(sourceListId)}'.` };
+    }
+  }
+  if (sheets !== undefined && sheets !== null && !isSheetSelection(sheets)) {
+    return { error: 'sheets must be "all" or an array of sheet names.' };
+  }
+  const profile = resolveMatchingProfile(request.profile as Partial<MatchingProfile> | null | undefined);
+  // Lookups only supply an SSID, so a NIN held by the source must not count against the name check.
+  const matchConfig: MatchConfig = { ...profile, strictIdentifiers: false };
+  let ingestion: IngestionReport | undefined;
+
+  if (batchFile || batchFileUrl) {
+    let data = batchFile;
+    if (!data) {
+      console.log(`Processing batch file from: ${batchFileUrl}`);
+      const response = await fetch(String(batchFileUrl));
+      if (!response.ok) throw new Error('Failed to fetch the uploaded batch file.');
+      data = await response.arrayBuffer();
+    }
+
+    // Same ingestion as the Validator, so title rows above the header are skipped here too.
+    let batch;
+    try {
+      batch = parseSpreadsheet(data, (sheets ?? undefined) as SheetSelection | undefined);
+    } catch (error) {
+      if (isSheetNotFoundError(error)) return { error: error.message };
+      throw error;
+    }
+    ingestion = batch.report;
+    const merged = Boolean(batch.report.sheets);
+
+    lookups = batch.rows.map(row => {
+      const ssid = extractSSID(row);
+      const name = extractFullName(row);
+      return merged ? { ssid, nameToVerify: name, sheet: String(row[SHEET_COLUMN] ?? '') } : { ssid, nameToVerify: name };
+    }).filter(item => item.ssid || item.nameToVerify);
+  }
+
+  if (!Array.isArray(lookups) || lookups.length === 0) {
+    return { error: 'No valid lookup data provided.' };
+  }
+  if (!lookups.every(isLookupItem)) {
+    const index = lookups.findIndex(item => !isLookupItem(item));
+    return { error: `lookups[${index}] must be an object with a string ssid and, if given, a string nameToVerify.` };
+  }
+
+  // This call is now safe, as getDataSource handles null/undefined internally
+  const loadedSource = await getDataSource(customSourceUrl, sourceListId);
+  const sourceIndex = loadedSource.index;
+
+  const results: LookupResult[] = [];
+
+  for (const item of lookups) {
+    // Rows from a multi-sheet batch keep the name of their sheet.
+    const push = (result: LookupResult) => results.push(item.sheet ? { ...result, sheet: item.sheet } : result);
+    const nameToVerify = item.nameToVerify?.trim() || '';
+    const subject = { ssid: String(item.ssid ?? ''), nin: '', name: nameToVerify };
+
+    // Without a name there is nothing to verify: report what the system holds for the SSID.
+    if (!nameToVerify) {
+      const [candidate] = findCandidates(subject, sourceIndex);
+      push(candidate
+        ? { ssid: item.ssid, nameToVerify: 'N/A', correctNameInSystem: candidate.subject.name || '---', status: 'Lookup Success' }
+        : { ssid: item.ssid, nameToVerify: 'N/A', correctNameInSystem: '---', status: 'Not Found' });
+      continue;
+    }
+
+    const verdict = matchEntry(subject, sourceIndex, matchConfig);
+    if (verdict.status === 'Needs Identifier') {
+      push({ ssid: '', nameToVerify, correctNameInSystem: verdict.nameCandidates?.[0]?.name || '---', nameCandidates: verdict.nameCandidates, status: 'Needs Identifier' });
+      continue;
+    }
+
+    if (!verdict.record) {
+      push({ ssid: item.ssid, nameToVerify, correctNameInSystem: '---', status: 'Not Found' });
+      continue;
+    }
+
+    if (verdict.status === 'Probable Typo') {
+      push({ ssid: item.ssid, nameToVerify, correctNameInSystem: verdict.matchedName || '---', nameSimilarity: verdict.similarity, nameRules: verdict.nameRules, suggestedSsid: verdict.matchedSSID, status: 'Probable Typo' });
+      continue;
+    }
+
+    push({
+      ssid: item.ssid,
+      nameToVerify,
+      correctNameInSystem: verdict.matchedName || '---',
+      nameSimilarity: verdict.similarity,
+      nameRules: verdict.nameRules,
+      status: verdict.status === 'Valid' ? 'Match' : 'Mismatch',
+    });
+  }
+
+  return {
+    results,
+    sourceRecordCount: loadedSource.records.length,
+    sourceUsed: customSourceUrl ? 'Custom Source' : loadedSource.list?.name ?? 'Default Master List',
+    ingestion,
+    matchingProfile: profile,
+  };
+}
@@ -0,0 +1,88 @@
+// File: src/lib/matchExplanation.ts
+// The detail behind one verdict: the submitted row beside the source record it
+// was matched to, whether each identifying field agrees, how the two names
+// differ word by word, and every other source record the matcher scored.
+
+import { ratio } from 'fuzzball';
+import { type Entry, type ColumnMapping, type ExtraFieldRole, EXTRA_FIELD_LABELS, normalize } from '@/lib/fields';
+import { type ConsideredCandidate, type MatchConfig, type MatchVerdict, type SourceIndex, matchEntry, toMatchSubject } from '@/lib/matcher';
+import { type NameTokenDiff, NAME_NORMALIZER_REGISTRY, diffNameTokens } from '@/lib/nameNormalizer';
+import { compareExtraFields } from '@/lib/fieldComparison';
+
+// --- Type Definitions ---
+/** `Missing` means only one side has a value; `Not Compared` that neither does. */
+export type FieldAgreement = 'Match' | 'Mismatch' | 'Missing' | 'Not Compared';
+
+export type ExplainedField = {
+  field: 'ssid' | 'nin' | 'name' | ExtraFieldRole;
+  label: string;
+  submitted: string;
+  source: string;
+  agreement: FieldAgreement;
+  note?: string;
+};
+
+export type MatchExplanation = {
+  verdict: Omit<MatchVerdict, 'record' | 'considered'>;
+  submitted: Entry;
+  /** The source record the verdict names; null when no record was matched. */
+  source: Entry | null;
+  fields: ExplainedField[];
+  nameTokens: NameTokenDiff[];
+  candidates: ConsideredCandidate[];
+};
+
+// --- Helper Functions ---
+function identifierAgreement(submitted: string, source: string): FieldAgreement {
+  const [a, b] = [normalize(submitted), normalize(source)];
+  if (a && b) return a === b ? 'Match' : 'Mismatch';
+  return a || b ? 'Missing' : 'Not Compared';
+}
+
+// --- Explanation ---
+/**
+ * Matches one row exactly as a validation run would and explains the verdict.
+ * `entry` must hold only the row's own columns, not the verdict columns.
+ */
+export function explainMatch(entry: Entry, index: SourceIndex, config: MatchConfig, mapping?: ColumnMapping): MatchExplanation {
+  const subject = toMatchSubject(entry, mapping, config.extraFields);
+  const { record, considered, ...verdict } = matchEntry(subject, index, config);
+  const source = record ?? null;
+  const sourceSubject = source ? toMatchSubject(source) : null;
+
+  const fields: ExplainedField[] = [
+    { field: 'ssid', label: 'SSID', submitted: subject.ssid, source: sourceSubject?.ssid ?? '', agreement: sourceSubject ? identifierAgreement(subject.ssid, sourceSubject.ssid) : 'Not Compared' },
+    { field: 'nin', label: 'NIN', submitted: subject.nin, source: sourceSubject?.nin ?? '', agreement: sourceSubject ? identifierAgreement(subject.nin, sourceSubject.nin) : 'Not Compared' },
+  ];
+
+  let nameTokens: NameTokenDiff[] = [];
+  if (source && sourceSubject) {
+    const similarity = verdict.similarity ?? 0;
+    fields.push({
+      field: 'name',
+      label: 'Name',
+      submitted: subject.name,
+      source: sourceSubject.name,
+      agreement: !subject.name || !sourceSubject.name ? 'Missing' : similarity >= config.nameThreshold ? 'Match' : 'Mismatch',
+      note: `${similarity}% similar (needs ${config.nameThreshold}%)${verdict.nameRules?.length ? ` via ${verdict.nameRules.join(', ')}` : ''}`,
+    });
+    nameTokens = diffNameTokens(subject.name, sourceSubject.name, NAME_NORMALIZER_REGISTRY[config.nameNormalizer], ratio);
+
+    // A Probable Typo carries no field checks, so the extra fields are compared here.
+    const checks = verdict.fieldChecks ?? compareExtraFields(subject.extras ?? {}, source, config.extraFields);
+    for (const check of checks) {
+      fields.push({
+        field: check.field,
+        label: EXTRA_FIELD_LABELS[check.field],
+        submitted: check.entryValue,
+        source: check.sourceValue,
+        agreement: check.status === 'Not Compared' && Boolean(check.entryValue) !== Boolean(check.sourceValue) ? 'Missing' : check.status,
+        note: config.criticalFields.includes(check.field) ? 'critical' : undefined,
+      });
+    }
+  } else {
+    fields.push({ field: 'name', label: 'Name', submitted: subject.name, source: '', agreement: 'Not Compared' });
+  }
+
+  return { verdict, submitted: entry, source, fields, nameTokens, candidates: considered ?? [] };
+}
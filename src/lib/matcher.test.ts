@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { type Entry } from '@/lib/fields';
+import { DEFAULT_MATCH_CONFIG, type MatchConfig, buildSourceIndex, matchEntry } from '@/lib/matcher';
+
+const SOURCE: Entry[] = [
+  { SSID: 'SS1001', NIN: '12345678901', 'Full Name': 'Adebayo Ogunleye' },
+  { SSID: 'SS1002', NIN: '22345678901', 'Full Name': 'Chiamaka Eze' },
+  { SSID: 'SS1003', NIN: '', 'Full Name': 'Ibrahim Musa' },
+];
+
+const index = buildSourceIndex(SOURCE);
+const withProfile = (overrides: Partial<MatchConfig>): MatchConfig => ({ ...DEFAULT_MATCH_CONFIG, ...overrides });
+
+describe('matchEntry', () => {
+  it('verifies a row whose SSID, NIN and name all agree', () => {
+    const verdict = matchEntry({ ssid: 'ss1001', nin: '12345678901', name: 'ADEBAYO OGUNLEYE' }, index);
+    expect(verdict.status).toBe('Valid');
+    expect(verdict.matchedSSID).toBe('SS1001');
+    expect(verdict.similarity).toBe(100);
+  });
+
+  it('reports a partial match when the name disagrees', () => {
+    const verdict = matchEntry({ ssid: 'SS1002', nin: '22345678901', name: 'Oluwaseun Bello' }, index);
+    expect(verdict.status).toBe('Partial Match');
+    expect(verdict.reason).toContain('Name similarity');
+  });
+
+  it('reports a NIN mismatch when the source record has no NIN and identifiers are strict', () => {
+    const verdict = matchEntry({ ssid: 'SS1003', nin: '99999999999', name: 'Ibrahim Musa' }, index);
+    expect(verdict.status).toBe('Partial Match');
+    expect(verdict.reason).toContain('NIN mismatch');
+  });
+
+  it('only compares identifiers both sides supply when identifiers are not strict', () => {
+    const verdict = matchEntry({ ssid: 'SS1003', nin: '99999999999', name: 'Ibrahim Musa' }, index, withProfile({ strictIdentifiers: false }));
+    expect(verdict.status).toBe('Valid');
+  });
+
+  it('finds the record by NIN when the SSID is missing', () => {
+    const verdict = matchEntry({ ssid: '', nin: '22345678901', name: 'Chiamaka Eze' }, index, withProfile({ strictIdentifiers: false }));
+    expect(verdict.status).toBe('Valid');
+    expect(verdict.matchedSSID).toBe('SS1002');
+  });
+
+  it('rejects rows without a name or without any identifier', () => {
+    expect(matchEntry({ ssid: 'SS1001', nin: '', name: '' }, index).status).toBe('Invalid');
+    expect(matchEntry({ ssid: '', nin: '', name: 'Chiamaka Eze' }, index).reason).toBe('Missing both SSID and NIN');
+  });
+
+  it('rejects an unknown identifier when typo recovery is off', () => {
+    const verdict = matchEntry({ ssid: 'SS1091', nin: '', name: 'Adebayo Ogunleye' }, index);
+    expect(verdict.status).toBe('Invalid');
+    expect(verdict.reason).toBe('No record found in source');
+  });
+
+  it('suggests a near identifier whose name matches when typo recovery is on', () => {
+    const verdict = matchEntry({ ssid: 'SS1091', nin: '', name: 'Adebayo Ogunleye' }, index, withProfile({ typoRecovery: true }));
+    expect(verdict.status).toBe('Probable Typo');
+    expect(verdict.suggestion).toEqual({ field: 'SSID', value: 'SS1001', distance: 1 });
+  });
+
+  it('offers name candidates for a row with only a name when name-only search is on', () => {
+    const verdict = matchEntry({ ssid: '', nin: '', name: 'Chiamaka Eze' }, index, withProfile({ nameOnlySearch: true }));
+    expect(verdict.status).toBe('Needs Identifier');
+    expect(verdict.nameCandidates?.[0]).toMatchObject({ name: 'Chiamaka Eze', ssid: 'SS1002' });
+  });
+
+  it('downgrades a valid row to a partial match on a critical field mismatch only', () => {
+    const extras = { dob: '05/03/1990' };
+    const sourceWithDob = buildSourceIndex([{ ...SOURCE[0], DOB: '1991-03-05' }]);
+    const subject = { ssid: 'SS1001', nin: '12345678901', name: 'Adebayo Ogunleye', extras };
+    expect(matchEntry(subject, sourceWithDob, withProfile({ extraFields: ['dob'] })).status).toBe('Valid');
+    expect(matchEntry(subject, sourceWithDob, withProfile({ extraFields: ['dob'], criticalFields: ['dob'] })).status).toBe('Partial Match');
+  });
+});
@@ -0,0 +1,362 @@
+// File: src/lib/matcher.ts
+
+import { token_set_ratio, token_sort_ratio, partial_ratio, WRatio } from 'fuzzball';
+import { type Entry, type ColumnMapping, type ExtraFieldRole, normalize, extractSSID, extractNIN, extractFullName } from '@/lib/fields';
+import { type MatchingProfile, type NameScorer, DEFAULT_MATCHING_PROFILE } from '@/lib/matchingProfiles';
+import { NAME_NORMALIZER_REGISTRY, compareNormalizedNames } from '@/lib/nameNormalizer';
+import { findNearIdentifiers } from '@/lib/typoRecovery';
+import { type NameIndex, blockByName, buildNameIndex } from '@/lib/nameIndex';
+import { type FieldCheck, compareExtraFields, describeFieldMismatch, extractExtraFields } from '@/lib/fieldComparison';
+
+// --- Type Definitions ---
+export type MatchStatus = 'Valid' | 'Partial Match' | 'Invalid' | 'Probable Typo' | 'Needs Identifier';
+
+/** The identifying fields of a record, as read from its columns (trimmed, original casing). */
+export type MatchSubject = {
+  ssid: string;
+  nin: string;
+  name: string;
+  /** Values of the profile's extra comparison fields; absent on source records. */
+  extras?: Partial<Record<ExtraFieldRole, string>>;
+};
+
+export type IndexedRecord = { record: Entry; subject: MatchSubject; };
+
+/** Records sharing one identifier; the first is the one lookups return. */
+export type IdentifierCollision = { field: 'SSID' | 'NIN'; value: string; records: IndexedRecord[]; };
+
+/**
+ * Lookups over a whole master list, built once per load. Every record is
+ * kept, including those without an SSID, which stay reachable by NIN and name.
+ */
+export type SourceIndex = {
+  records: IndexedRecord[];
+  bySSID: Map<string, IndexedRecord>;
+  byNIN: Map<string, IndexedRecord>;
+  nameIndex: NameIndex;
+  collisions: { ssid: IdentifierCollision[]; nin: IdentifierCollision[]; };
+  withoutSsid: number;
+  warnings: string[];
+};
+
+export type NameCandidate = { name: string; ssid: string; nin: string; score: number; };
+
+/**
+ * A source record scored while matching a subject, and how it was reached: by
+ * an identifier, or by an identifier a few edits away (`distance`). `score` is
+ * the weighted total the best candidate is chosen by; near identifiers are
+ * ranked by distance, then name similarity.
+ */
+export type ConsideredCandidate = {
+  via: 'SSID' | 'NIN' | 'SSID typo' | 'NIN typo';
+  record: Entry;
+  name: string;
+  ssid: string;
+  nin: string;
+  nameScore: number | null;
+  score: number;
+  distance?: number;
+  chosen: boolean;
+};
+
+export type NameComparison = { score: number; rules: string[]; };
+
+export type MatchConfig = MatchingProfile & {
+  /**
+   * When true, an identifier present on only one side counts as a mismatch.
+   * When false, identifiers are only compared if both sides supply them.
+   */
+  strictIdentifiers: boolean;
+};
+
+export type MatchVerdict = {
+  status: MatchStatus;
+  reason: string;
+  matchedName?: string;
+  matchedSSID?: string;
+  matchedNIN?: string;
+  similarity?: number;
+  /** Normaliser rules that raised the name similarity, e.g. 'titles removed'. */
+  nameRules?: string[];
+  /** One check per extra comparison field of the profile, for Valid and Partial Match verdicts. */
+  fieldChecks?: FieldCheck[];
+  record?: Entry;
+  /** For 'Probable Typo': the source identifier the submitted one most likely meant. */
+  suggestion?: { field: 'SSID' | 'NIN'; value: string; distance: number; };
+  /** For 'Needs Identifier': the closest source records by name, best first. */
+  nameCandidates?: NameCandidate[];
+  /** Every source record reached by SSID, NIN or a near identifier, best first. */
+  considered?: ConsideredCandidate[];
+};
+
+// --- Configuration Constants ---
+const NAME_CANDIDATE_MIN_SCORE = 70; // Below this a name candidate is noise, not a lead for a reviewer.
+const NAME_BLOCK_LIMIT = 200; // Blocked records scored per name-only search.
+const MAX_SOURCE_WARNINGS = 100; // Warnings carried into every summary; the master list health report has the rest.
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  ...DEFAULT_MATCHING_PROFILE,
+  strictIdentifiers: true,
+};
+
+const NAME_SCORER_FUNCTIONS: Record<NameScorer, (a: string, b: string) => number> = {
+  token_set: token_set_ratio,
+  token_sort: token_sort_ratio,
+  partial: partial_ratio,
+  WRatio: WRatio,
+};
+
+export function scoreNames(a: string, b: string, scorer: NameScorer = DEFAULT_MATCHING_PROFILE.scorer): number {
+  return NAME_SCORER_FUNCTIONS[scorer](a, b);
+}
+
+/** Scores two names through the configured normaliser, reporting the rules that raised the score. */
+export function compareNames(a: string, b: string, config: MatchConfig): NameComparison {
+  return compareNormalizedNames(a, b, NAME_NORMALIZER_REGISTRY[config.nameNormalizer], (x, y) => scoreNames(x, y, config.scorer));
+}
+
+/** ' via <rules>' when normalisation raised the name score, else nothing. */
+function describeRules(comparison: NameComparison): string {
+  return comparison.rules.length > 0 ? ` via ${comparison.rules.join(', ')}` : '';
+}
+
+// --- Index Construction ---
+/**
+ * Reads the identifying fields of an entry, through a user-confirmed column
+ * mapping when given, plus any extra fields the profile compares.
+ */
+export function toMatchSubject(entry: Entry, mapping?: ColumnMapping, extraFields: readonly ExtraFieldRole[] = []): MatchSubject {
+  const subject: MatchSubject = { ssid: extractSSID(entry, mapping), nin: extractNIN(entry, mapping), name: extractFullName(entry, mapping) };
+  if (extraFields.length > 0) subject.extras = extractExtraFields(entry, extraFields, mapping);
+  return subject;
+}
+
+/** Files a record under an identifier, keeping the first and collecting any repeats. */
+function addToLookup(lookup: Map<string, IndexedRecord>, repeats: Map<string, IndexedRecord[]>, key: string, indexed: IndexedRecord): void {
+  const first = lookup.get(key);
+  if (!first) {
+    lookup.set(key, indexed);
+    return;
+  }
+  const group = repeats.get(key);
+  if (group) group.push(indexed);
+  else repeats.set(key, [first, indexed]);
+}
+
+function toCollisions(field: IdentifierCollision['field'], repeats: Map<string, IndexedRecord[]>): IdentifierCollision[] {
+  return Array.from(repeats.values(), records => ({ field, value: field === 'SSID' ? records[0].subject.ssid : records[0].subject.nin, records }));
+}
+
+/**
+ * Builds the SSID, NIN and name lookups over the source records. The first
+ * record seen for an identifier wins; repeats are kept as collisions, and
+ * repeated SSIDs are reported as warnings.
+ */
+export function buildSourceIndex(entries: Iterable<Entry>): SourceIndex {
+  const records: IndexedRecord[] = [];
+  const bySSID = new Map<string, IndexedRecord>();
+  const byNIN = new Map<string, IndexedRecord>();
+  const ssidRepeats = new Map<string, IndexedRecord[]>();
+  const ninRepeats = new Map<string, IndexedRecord[]>();
+  let withoutSsid = 0;
+
+  for (const record of entries) {
+    const indexed: IndexedRecord = { record, subject: toMatchSubject(record) };
+    records.push(indexed);
+    const ssid = normalize(indexed.subject.ssid);
+    const nin = normalize(indexed.subject.nin);
+
+    if (ssid) addToLookup(bySSID, ssidRepeats, ssid, indexed);
+    else withoutSsid++;
+    if (nin) addToLookup(byNIN, ninRepeats, nin, indexed);
+  }
+
+  const collisions = { ssid: toCollisions('SSID', ssidRepeats), nin: toCollisions('NIN', ninRepeats) };
+  const ignored = collisions.ssid.flatMap(({ value, records: group }) => group.slice(1).map(indexed => ({ value, indexed })));
+  const warnings = ignored.slice(0, MAX_SOURCE_WARNINGS).map(({ value, indexed }) => `Warning: Duplicate SSID '${value}' in source file for entry '${indexed.subject.name || 'N/A'}'. This record was ignored.`);
+  if (ignored.length > MAX_SOURCE_WARNINGS) warnings.push(`Warning: ${ignored.length - MAX_SOURCE_WARNINGS} more records with a duplicate SSID were ignored.`);
+
+  const nameIndex = buildNameIndex(records.map(indexed => indexed.record), record => extractFullName(record));
+  return { records, bySSID, byNIN, nameIndex, collisions, withoutSsid, warnings };
+}
+
+// --- Matching ---
+/** Returns every distinct source record reachable from the subject's SSID or NIN. */
+export function findCandidates(subject: MatchSubject, index: SourceIndex): IndexedRecord[] {
+  const candidates: IndexedRecord[] = [];
+  const ssidHit = subject.ssid ? index.bySSID.get(normalize(subject.ssid)) : undefined;
+  const ninHit = subject.nin ? index.byNIN.get(normalize(subject.nin)) : undefined;
+  if (ssidHit) candidates.push(ssidHit);
+  if (ninHit && ninHit !== ssidHit) candidates.push(ninHit);
+  return candidates;
+}
+
+/**
+ * Scores the records sharing the most name blocking keys with a name and
+ * returns the best `limit` of them above the candidate score floor.
+ */
+export function findNameCandidates(name: string, nameIndex: NameIndex, config: MatchConfig): NameCandidate[] {
+  return blockByName(name, nameIndex, NAME_BLOCK_LIMIT)
+    .map(({ record, name: sourceName }) => ({
+      name: sourceName,
+      ssid: extractSSID(record),
+      nin: extractNIN(record),
+      score: compareNames(name, sourceName, config).score,
+    }))
+    .filter(candidate => candidate.score >= NAME_CANDIDATE_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, config.nameCandidateLimit);
+}
+
+function identifierMatches(entryValue: string, sourceValue: string, strict: boolean): boolean {
+  const entryId = normalize(entryValue);
+  const sourceId = normalize(sourceValue);
+  if (entryId && sourceId) return entryId === sourceId;
+  // Present on one side only: a mismatch under strict rules, ignored otherwise.
+  if (entryId || sourceId) return !strict;
+  return true;
+}
+
+function toConsidered(candidate: IndexedRecord, via: ConsideredCandidate['via'], nameScore: number | null, score: number, distance?: number): ConsideredCandidate {
+  const { record, subject } = candidate;
+  const considered: ConsideredCandidate = { via, record, name: subject.name, ssid: subject.ssid, nin: subject.nin, nameScore, score, chosen: false };
+  if (distance !== undefined) considered.distance = distance;
+  return considered;
+}
+
+/**
+ * Looks for a source record whose SSID or NIN is within a few edits of the
+ * subject's unmatched identifier. A near identifier is only trusted when the
+ * name also matches; the closest, then most similar, such record wins. Every
+ * near record is returned in `considered`, trusted or not.
+ */
+function recoverTypo(subject: MatchSubject, index: SourceIndex, config: MatchConfig): { verdict: MatchVerdict | null; considered: ConsideredCandidate[]; } {
+  let best: { candidate: IndexedRecord; field: 'SSID' | 'NIN'; distance: number; comparison: NameComparison; } | null = null;
+  const considered: ConsideredCandidate[] = [];
+
+  const lookups = [
+    { field: 'SSID' as const, value: subject.ssid, map: index.bySSID },
+    { field: 'NIN' as const, value: subject.nin, map: index.byNIN },
+  ];
+  for (const { field, value, map } of lookups) {
+    if (!value) continue;
+    for (const near of findNearIdentifiers(normalize(value), map, config.maxTypoDistance)) {
+      const candidate = near.value;
+      const comparison = candidate.subject.name ? compareNames(subject.name, candidate.subject.name, config) : null;
+      considered.push(toConsidered(candidate, `${field} typo`, comparison?.score ?? null, comparison?.score ?? 0, near.distance));
+      if (!comparison || comparison.score < config.nameThreshold) continue;
+      if (!best || near.distance < best.distance || (near.distance === best.distance && comparison.score > best.comparison.score)) {
+        best = { candidate, field, distance: near.distance, comparison };
+      }
+    }
+  }
+  considered.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0) || b.score - a.score);
+  if (!best) return { verdict: null, considered };
+
+  const chosen = best.candidate.record;
+  for (const entry of considered) entry.chosen = entry.record === chosen;
+  const source = best.candidate.subject;
+  const submitted = best.field === 'SSID' ? subject.ssid : subject.nin;
+  const suggested = best.field === 'SSID' ? source.ssid : source.nin;
+  return {
+    verdict: {
+      status: 'Probable Typo',
+      reason: `Probable ${best.field} typo: '${submitted}' not found; '${suggested}' is ${best.distance} edit(s) away and the name matches (${best.comparison.score}%${describeRules(best.comparison)})`,
+      matchedName: source.name,
+      matchedSSID: source.ssid,
+      matchedNIN: source.nin,
+      similarity: best.comparison.score,
+      nameRules: best.comparison.rules,
+      record: best.candidate.record,
+      suggestion: { field: best.field, value: suggested, distance: best.distance },
+      considered,
+    },
+    considered,
+  };
+}
+
+/**
+ * Determines the validation status of a subject against the source index.
+ * Candidates found by SSID or NIN are scored by identifier agreement plus a
+ * weighted name similarity; the best one is then checked field by field.
+ */
+export function matchEntry(subject: MatchSubject, index: SourceIndex, config: MatchConfig = DEFAULT_MATCH_CONFIG): MatchVerdict {
+  try {
+    if (!subject.name) return { status: 'Invalid', reason: `Missing name field.` };
+    if (!subject.ssid && !subject.nin) {
+      // Rows with only a name go to reviewers with the closest source records instead of being rejected.
+      if (config.nameOnlySearch) {
+        const nameCandidates = findNameCandidates(subject.name, index.nameIndex, config);
+        if (nameCandidates.length > 0) {
+          const [top] = nameCandidates;
+          return {
+            status: 'Needs Identifier',
+            reason: `Missing both SSID and NIN; ${nameCandidates.length} name candidate(s), best: ${top.name} (${top.score}%)`,
+            nameCandidates,
+          };
+        }
+      }
+      return { status: 'Invalid', reason: 'Missing both SSID and NIN' };
+    }
+
+    const candidates = findCandidates(subject, index);
+    if (candidates.length === 0) {
+      if (!config.typoRecovery) return { status: 'Invalid', reason: 'No record found in source' };
+      const { verdict, considered } = recoverTypo(subject, index, config);
+      return verdict ?? { status: 'Invalid', reason: 'No record found in source', considered };
+    }
+
+    let best = candidates[0];
+    let bestScore = 0;
+    let bestComparison: NameComparison | null = null;
+    const considered: ConsideredCandidate[] = [];
+    for (const candidate of candidates) {
+      let score = 0;
+      const ssidHit = Boolean(subject.ssid) && normalize(candidate.subject.ssid) === normalize(subject.ssid);
+      if (ssidHit) score += config.weights.ssid;
+      if (subject.nin && normalize(candidate.subject.nin) === normalize(subject.nin)) score += config.weights.nin;
+      const comparison = candidate.subject.name ? compareNames(subject.name, candidate.subject.name, config) : null;
+      if (comparison) score += comparison.score * config.weights.name;
+      considered.push(toConsidered(candidate, ssidHit ? 'SSID' : 'NIN', comparison?.score ?? null, score));
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+        bestComparison = comparison;
+      }
+    }
+    for (const entry of considered) entry.chosen = entry.record === best.record;
+    considered.sort((a, b) => b.score - a.score);
+
+    const source = best.subject;
+    if (!source.name) return { status: 'Invalid', reason: 'Source record missing name', record: best.record, considered };
+
+    const ssidMatches = identifierMatches(subject.ssid, source.ssid, config.strictIdentifiers);
+    const ninMatches = identifierMatches(subject.nin, source.nin, config.strictIdentifiers);
+    const comparison = bestComparison ?? compareNames(subject.name, source.name, config);
+    const nameMatches = comparison.score >= config.nameThreshold;
+
+    const fieldChecks = compareExtraFields(subject.extras ?? {}, best.record, config.extraFields);
+    const fieldMismatches = fieldChecks.filter(check => check.status === 'Mismatch');
+    const criticalMismatches = fieldMismatches.filter(check => config.criticalFields.includes(check.field));
+
+    const matched = { matchedName: source.name, matchedSSID: source.ssid, matchedNIN: source.nin, similarity: comparison.score, nameRules: comparison.rules, fieldChecks, record: best.record, considered };
+
+    if (ssidMatches && ninMatches && nameMatches && criticalMismatches.length === 0) {
+      // Non-critical differences are noted without affecting the status.
+      const notes = fieldMismatches.map(check => `; ${describeFieldMismatch(check)} (not critical)`).join('');
+      return { status: 'Valid', reason: `Verified (${comparison.score}% name match${describeRules(comparison)})${notes}`, ...matched };
+    }
+
+    const mismatches: string[] = [];
+    if (!ssidMatches) mismatches.push(`SSID mismatch`);
+    if (!ninMatches) mismatches.push(`NIN mismatch`);
+    if (!nameMatches) mismatches.push(`Name similarity: ${comparison.score}%${describeRules(comparison)}`);
+    for (const check of fieldMismatches) {
+      mismatches.push(criticalMismatches.includes(check) ? describeFieldMismatch(check) : `${describeFieldMismatch(check)} (not critical)`);
+    }
+
+    return { status: 'Partial Match', reason: `Issues: ${mismatches.join('; ')}`, ...matched };
+  } catch (error) {
+    return { status: 'Invalid', reason: `System error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
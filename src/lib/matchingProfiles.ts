@@ -0,0 +1,118 @@
+// File: src/lib/matchingProfiles.ts
+// Kept free of server-only dependencies so pages can import the presets.
+
+import { type ExtraFieldRole, EXTRA_FIELD_ROLES } from '@/lib/fields';
+
+// --- Type Definitions ---
+export const NAME_SCORERS = ['token_set', 'token_sort', 'partial', 'WRatio'] as const;
+export type NameScorer = typeof NAME_SCORERS[number];
+
+export const NAME_NORMALIZERS = ['none', 'west_african'] as const;
+export type NameNormalizerId = typeof NAME_NORMALIZERS[number];
+
+/** The tunable part of the matching engine, chosen per validation or lookup run. */
+export type MatchingProfile = {
+  name: string;
+  nameThreshold: number; // Minimum name similarity (0-100) for a name to count as matching.
+  scorer: NameScorer;
+  nameNormalizer: NameNormalizerId; // Rules applied to both names before scoring ('none' compares them as typed).
+  weights: { ssid: number; nin: number; name: number; }; // Used to rank candidate records.
+  typoRecovery: boolean; // On an identifier miss, look for a near identifier whose name matches.
+  maxTypoDistance: number; // 1 or 2 edits; 2 is markedly slower on large sources.
+  nameOnlySearch: boolean; // Offer name candidates for rows with neither SSID nor NIN.
+  nameCandidateLimit: number; // How many name candidates to return per row.
+  extraFields: ExtraFieldRole[]; // Compared when both the row and its source record hold a value.
+  criticalFields: ExtraFieldRole[]; // A mismatch on one of these downgrades an otherwise valid row.
+};
+
+// --- Presets ---
+/** Used when a request names no profile, so such runs score names as they always have. */
+export const DEFAULT_MATCHING_PROFILE: MatchingProfile = {
+  name: 'Standard',
+  nameThreshold: 90,
+  scorer: 'token_set',
+  nameNormalizer: 'none',
+  weights: { ssid: 40, nin: 40, name: 0.2 },
+  typoRecovery: false,
+  maxTypoDistance: 1,
+  nameOnlySearch: false,
+  nameCandidateLimit: 5,
+  extraFields: [],
+  criticalFields: [],
+};
+
+export const PRESET_MATCHING_PROFILES: MatchingProfile[] = [
+  DEFAULT_MATCHING_PROFILE,
+  {
+    ...DEFAULT_MATCHING_PROFILE,
+    name: 'West African Names',
+    nameNormalizer: 'west_african',
+    nameOnlySearch: true,
+    extraFields: ['dob', 'phone', 'accountNumber', 'bvn'],
+  },
+  { ...DEFAULT_MATCHING_PROFILE, name: 'Typo Recovery', typoRecovery: true },
+  { ...DEFAULT_MATCHING_PROFILE, name: 'Transliterated Names', nameThreshold: 85, scorer: 'token_sort' },
+  {
+    ...DEFAULT_MATCHING_PROFILE,
+    name: 'Payroll (Strict)',
+    nameThreshold: 95,
+    extraFields: ['dob', 'phone', 'accountNumber', 'bvn'],
+    criticalFields: ['accountNumber', 'bvn'],
+  },
+];
+
+// --- Validation ---
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Returns a message describing the first problem with a profile from a request body, or null. */
+export function validateMatchingProfile(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return 'profile must be an object.';
+  const profile = input as Partial<MatchingProfile>;
+
+  if (profile.name !== undefined && typeof profile.name !== 'string') return 'profile.name must be a string.';
+  if (profile.nameThreshold !== undefined && (!isFiniteNumber(profile.nameThreshold) || profile.nameThreshold < 0 || profile.nameThreshold > 100)) {
+    return 'profile.nameThreshold must be a number between 0 and 100.';
+  }
+  if (profile.scorer !== undefined && !NAME_SCORERS.includes(profile.scorer)) {
+    return `profile.scorer must be one of: ${NAME_SCORERS.join(', ')}.`;
+  }
+  if (profile.nameNormalizer !== undefined && !NAME_NORMALIZERS.includes(profile.nameNormalizer)) {
+    return `profile.nameNormalizer must be one of: ${NAME_NORMALIZERS.join(', ')}.`;
+  }
+  if (profile.typoRecovery !== undefined && typeof profile.typoRecovery !== 'boolean') return 'profile.typoRecovery must be a boolean.';
+  if (profile.maxTypoDistance !== undefined && profile.maxTypoDistance !== 1 && profile.maxTypoDistance !== 2) {
+    return 'profile.maxTypoDistance must be 1 or 2.';
+  }
+  if (profile.nameOnlySearch !== undefined && typeof profile.nameOnlySearch !== 'boolean') return 'profile.nameOnlySearch must be a boolean.';
+  if (profile.nameCandidateLimit !== undefined && (!Number.isInteger(profile.nameCandidateLimit) || profile.nameCandidateLimit < 1 || profile.nameCandidateLimit > 20)) {
+    return 'profile.nameCandidateLimit must be an integer between 1 and 20.';
+  }
+  for (const key of ['extraFields', 'criticalFields'] as const) {
+    const fields = profile[key];
+    if (fields === undefined) continue;
+    if (!Array.isArray(fields)) return `profile.${key} must be an array.`;
+    const unknown = fields.find(field => !EXTRA_FIELD_ROLES.includes(field));
+    if (unknown !== undefined) return `profile.${key} contains unknown field '${String(unknown)}'. Expected: ${EXTRA_FIELD_ROLES.join(', ')}.`;
+  }
+  if (profile.weights !== undefined) {
+    if (typeof profile.weights !== 'object' || profile.weights === null) return 'profile.weights must be an object.';
+    for (const [key, value] of Object.entries(profile.weights)) {
+      if (!['ssid', 'nin', 'name'].includes(key)) return `Unknown weight '${key}'.`;
+      if (!isFiniteNumber(value) || value < 0) return `profile.weights.${key} must be a non-negative number.`;
+    }
+  }
+  return null;
+}
+
+/** Fills any fields missing from a (validated) request profile with the defaults. */
+export function resolveMatchingProfile(input?: Partial<MatchingProfile> | null): MatchingProfile {
+  if (!input) return DEFAULT_MATCHING_PROFILE;
+  return {
+    ...DEFAULT_MATCHING_PROFILE,
+    ...input,
+    name: input.name || 'Custom',
+    weights: { ...DEFAULT_MATCHING_PROFILE.weights, ...input.weights },
+  };
+}
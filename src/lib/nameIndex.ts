@@ -0,0 +1,87 @@
+// File: src/lib/nameIndex.ts
+
+import type { Entry } from '@/lib/fields';
+
+// --- Type Definitions ---
+/**
+ * A blocking index over source names. Each record is filed under the phonetic
+ * key of every name token and under its sorted-token key, so spelling and
+ * word-order variants of a name land in the same buckets.
+ */
+export type NameIndex = {
+  records: { record: Entry; name: string; }[];
+  byKey: Map<string, number[]>;
+};
+
+// --- Configuration Constants ---
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+const SORTED_KEY_BONUS = 2; // A full sorted-token hit counts for more than one shared token.
+
+// --- Helper Functions ---
+export function nameTokens(name: string): string[] {
+  return name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^a-z]+/).filter(t => t.length > 1);
+}
+
+/** American Soundex: the first letter plus three digits for the following consonant sounds. */
+export function soundex(token: string): string {
+  const letters = token.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] || '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[letters[i]] || '';
+    if (digit && digit !== previous) code += digit;
+    // 'h' and 'w' do not separate letters with the same code; vowels do.
+    if (letters[i] !== 'h' && letters[i] !== 'w') previous = digit;
+  }
+  return code.padEnd(4, '0');
+}
+
+function blockingKeys(tokens: string[]): string[] {
+  const keys = new Set(tokens.map(t => `p:${soundex(t)}`));
+  if (tokens.length > 0) keys.add(`s:${[...tokens].sort().join(' ')}`);
+  return Array.from(keys);
+}
+
+// --- Index Construction & Search ---
+export function buildNameIndex(records: Iterable<Entry>, getName: (record: Entry) => string): NameIndex {
+  const index: NameIndex = { records: [], byKey: new Map() };
+  for (const record of records) {
+    const name = getName(record);
+    const tokens = nameTokens(name);
+    if (tokens.length === 0) continue;
+
+    const position = index.records.push({ record, name }) - 1;
+    for (const key of blockingKeys(tokens)) {
+      const bucket = index.byKey.get(key);
+      if (bucket) bucket.push(position);
+      else index.byKey.set(key, [position]);
+    }
+  }
+  return index;
+}
+
+/**
+ * Returns the indexed records sharing the most blocking keys with a name,
+ * best first, capped at `limit`. Callers score the survivors themselves.
+ */
+export function blockByName(name: string, index: NameIndex, limit: number): { record: Entry; name: string; }[] {
+  const overlap = new Map<number, number>();
+  for (const key of blockingKeys(nameTokens(name))) {
+    const weight = key.startsWith('s:') ? SORTED_KEY_BONUS : 1;
+    for (const position of index.byKey.get(key) || []) {
+      overlap.set(position, (overlap.get(position) || 0) + weight);
+    }
+  }
+  return Array.from(overlap.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([position]) => index.records[position]);
+}
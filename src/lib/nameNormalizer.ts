@@ -0,0 +1,181 @@
+// File: src/lib/nameNormalizer.ts
+
+import { type NameNormalizerId } from '@/lib/matchingProfiles';
+import { NAME_VARIANT_GROUPS } from '@/lib/nameVariants';
+
+// --- Type Definitions ---
+/**
+ * One normalisation rule. It receives the tokens of both names so that rules
+ * such as initial expansion can look across to the other side.
+ */
+export type NormalizationStage = {
+  rule: string; // Reported in the Match Reason when this stage raised the score.
+  apply: (left: string[], right: string[]) => [string[], string[]];
+};
+
+/** An ordered list of stages; each runs on the output of the previous one. */
+export type NameNormalizer = { id: NameNormalizerId; stages: NormalizationStage[]; };
+
+// --- Configuration Constants ---
+const TITLES = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'mst', 'madam', 'dr', 'prof', 'engr', 'arc', 'barr', 'pharm', 'hon',
+  'chief', 'alhaji', 'alh', 'alhaja', 'hajia', 'hajiya', 'mallam', 'malam',
+  'pastor', 'rev', 'revd', 'evang', 'deacon', 'dcn', 'elder', 'sir', 'lady',
+  'oba', 'otunba', 'prince', 'princess',
+]);
+
+const CANONICAL_SPELLINGS = new Map<string, string>(
+  NAME_VARIANT_GROUPS.flatMap(([canonical, ...variants]) => variants.map(variant => [variant, canonical] as [string, string]))
+);
+
+// --- Stages ---
+function tokenize(name: string): string[] {
+  return name.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+}
+
+function eachSide(transform: (tokens: string[]) => string[]): NormalizationStage['apply'] {
+  return (left, right) => [transform(left), transform(right)];
+}
+
+const stripTitles: NormalizationStage = {
+  rule: 'titles removed',
+  // A name made only of titles is left alone rather than emptied.
+  apply: eachSide(tokens => {
+    const kept = tokens.filter(t => !TITLES.has(t));
+    return kept.length > 0 ? kept : tokens;
+  }),
+};
+
+const foldDiacritics: NormalizationStage = {
+  rule: 'diacritics folded',
+  apply: eachSide(tokens => tokens.map(t => t.normalize('NFD').replace(/[\u0300-\u036f]/g, ''))),
+};
+
+const foldVariants: NormalizationStage = {
+  rule: 'spelling variant',
+  apply: eachSide(tokens => tokens.map(t => CANONICAL_SPELLINGS.get(t) ?? t)),
+};
+
+/** Replaces a one-letter token with the unmatched full name on the other side that it abbreviates. */
+function expandAgainst(tokens: string[], other: string[]): string[] {
+  const unmatched = other.filter(t => t.length > 1 && !tokens.includes(t));
+  return tokens.map(t => {
+    if (t.length !== 1) return t;
+    const index = unmatched.findIndex(candidate => candidate.startsWith(t));
+    return index === -1 ? t : unmatched.splice(index, 1)[0];
+  });
+}
+
+const expandInitials: NormalizationStage = {
+  rule: 'initials matched',
+  apply: (left, right) => [expandAgainst(left, right), expandAgainst(right, left)],
+};
+
+// --- Registry ---
+export const NAME_NORMALIZER_REGISTRY: Record<NameNormalizerId, NameNormalizer> = {
+  none: { id: 'none', stages: [] },
+  west_african: { id: 'west_african', stages: [stripTitles, foldDiacritics, foldVariants, expandInitials] },
+};
+
+/**
+ * Scores two names with `score`, then again after each normaliser stage,
+ * keeping the best score. A stage's rule is reported only when it raised the
+ * score, so the rules explain how the final similarity was reached.
+ */
+export function compareNormalizedNames(
+  a: string,
+  b: string,
+  normalizer: NameNormalizer,
+  score: (a: string, b: string) => number,
+): { score: number; rules: string[]; } {
+  let best = score(a, b);
+  const rules: string[] = [];
+  if (best === 100 || normalizer.stages.length === 0) return { score: best, rules };
+
+  let left = tokenize(a);
+  let right = tokenize(b);
+  for (const stage of normalizer.stages) {
+    [left, right] = stage.apply(left, right);
+    const staged = score(left.join(' '), right.join(' '));
+    if (staged > best) {
+      best = staged;
+      rules.push(stage.rule);
+    }
+    if (best === 100) break;
+  }
+  return { score: best, rules };
+}
+
+// --- Token Differences ---
+/**
+ * How one name token lines up with the other name: the same word, the same
+ * after folding diacritics or spelling variants, an initial of it, a close
+ * misspelling, a title that matching ignores, or a word only one side has.
+ */
+export type NameTokenStatus = 'match' | 'variant' | 'initial' | 'misspelled' | 'title' | 'extra' | 'missing';
+
+/** One token of the submitted name, the source name, or both; `extra` is submitted only, `missing` source only. */
+export type NameTokenDiff = { status: NameTokenStatus; submitted: string | null; source: string | null; similarity: number | null; };
+
+const MISSPELLING_MIN_SIMILARITY = 75; // Below this two unpaired tokens are different words, not a misspelling.
+
+/**
+ * Lines up the tokens of a submitted name against a source name, using the
+ * same stages the normaliser scores with. Pairs are found in order of
+ * confidence: identical, folded, initials, then the closest misspellings by
+ * `similarity`. The result follows the submitted name, then lists the
+ * source tokens nothing was paired with.
+ */
+export function diffNameTokens(
+  submitted: string,
+  source: string,
+  normalizer: NameNormalizer,
+  similarity: (a: string, b: string) => number,
+): NameTokenDiff[] {
+  const left = tokenize(submitted);
+  const right = tokenize(source);
+  const uses = (stage: NormalizationStage) => normalizer.stages.includes(stage);
+  const fold = (token: string) => {
+    const plain = uses(foldDiacritics) ? token.normalize('NFD').replace(/[\u0300-\u036f]/g, '') : token;
+    return uses(foldVariants) ? CANONICAL_SPELLINGS.get(plain) ?? plain : plain;
+  };
+
+  const diffs: (NameTokenDiff | null)[] = left.map(() => null);
+  const paired = new Set<number>();
+  const pair = (test: (a: string, b: string) => boolean, status: NameTokenStatus) => {
+    left.forEach((token, i) => {
+      if (diffs[i]) return;
+      const j = right.findIndex((other, k) => !paired.has(k) && test(token, other));
+      if (j === -1) return;
+      paired.add(j);
+      diffs[i] = { status, submitted: token, source: right[j], similarity: null };
+    });
+  };
+
+  pair((a, b) => a === b, 'match');
+  if (uses(foldDiacritics) || uses(foldVariants)) pair((a, b) => fold(a) === fold(b), 'variant');
+  if (uses(expandInitials)) pair((a, b) => (a.length === 1) !== (b.length === 1) && (a.length === 1 ? b.startsWith(a) : a.startsWith(b)), 'initial');
+
+  // Closest pairs first, so one good pairing is not spoiled by a greedy poor one.
+  const scored: { i: number; j: number; score: number; }[] = [];
+  left.forEach((token, i) => {
+    if (diffs[i]) return;
+    right.forEach((other, j) => {
+      if (paired.has(j)) return;
+      const score = similarity(fold(token), fold(other));
+      if (score >= MISSPELLING_MIN_SIMILARITY) scored.push({ i, j, score });
+    });
+  });
+  for (const { i, j, score } of scored.sort((a, b) => b.score - a.score)) {
+    if (diffs[i] || paired.has(j)) continue;
+    paired.add(j);
+    diffs[i] = { status: 'misspelled', submitted: left[i], source: right[j], similarity: score };
+  }
+
+  const isTitle = (token: string) => uses(stripTitles) && TITLES.has(token);
+  const result: NameTokenDiff[] = left.map((token, i) => diffs[i] ?? { status: isTitle(token) ? 'title' : 'extra', submitted: token, source: null, similarity: null });
+  right.forEach((token, j) => {
+    if (!paired.has(j)) result.push({ status: isTitle(token) ? 'title' : 'missing', submitted: null, source: token, similarity: null });
+  });
+  return result;
+}
@@ -0,0 +1,35 @@
+// File: src/lib/nameVariants.ts
+// Spelling variants of the same given name or surname, as they appear across
+// West African payroll and identity records. Each group lists one name; the
+// first spelling is the canonical form every other spelling is folded to.
+// Add a group (lowercase, no diacritics) when reviewers keep approving the
+// same pair by hand. Do not group names that are merely related, such as a
+// full name and its nickname (Babatunde / Tunde).
+
+export const NAME_VARIANT_GROUPS: string[][] = [
+  // Arabic-derived names
+  ['muhammad', 'mohammed', 'mohammad', 'muhammed', 'mohamed', 'mohamad', 'muhamad', 'mohd'],
+  ['ahmad', 'ahmed', 'ahmadu', 'amadu'],
+  ['abdullahi', 'abdullah', 'abdulahi', 'abdulah'],
+  ['abdulrahman', 'abdurrahman', 'abdulrahaman', 'abdurahman', 'abdulrahmon'],
+  ['abubakar', 'abubakr', 'abubakkar', 'abubaker'],
+  ['aisha', 'aishat', 'aishah', 'ayesha', 'aishatu'],
+  ['fatima', 'fatimah', 'fatimat', 'fatimatu', 'fatuma'],
+  ['hauwa', 'hawa', 'hauwau'],
+  ['ibrahim', 'ibraheem', 'ibrahima'],
+  ['idris', 'idrisu', 'idrees'],
+  ['ismail', 'ismaila', 'ismaeel', 'ismael'],
+  ['khadijat', 'khadijah', 'khadija', 'kadijat', 'hadiza'],
+  ['suleiman', 'sulaiman', 'sulaimon', 'suleman', 'sulaymon'],
+  ['usman', 'uthman', 'osman', 'usmanu'],
+  ['yakubu', 'yaqub', 'yakub'],
+  ['yusuf', 'yusuff', 'yussuf', 'yusufu'],
+  ['zainab', 'zainabu', 'zaynab'],
+  // Other common spellings
+  ['emmanuel', 'emanuel', 'immanuel'],
+  ['oluwaseun', 'oluseun'],
+  ['oluwasegun', 'olusegun'],
+  ['oluwatosin', 'olutosin'],
+  ['oluwafemi', 'olufemi'],
+  ['oluwakemi', 'olukemi'],
+];
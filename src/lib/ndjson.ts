@@ -0,0 +1,25 @@
+// File: src/lib/ndjson.ts
+
+/**
+ * Reads a newline-delimited JSON stream, calling `onEvent` with each parsed
+ * line as soon as it arrives. Resolves when the stream ends.
+ */
+export async function readNdjson<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as T);
+    }
+
+    if (done) break;
+  }
+  if (buffered.trim()) onEvent(JSON.parse(buffered) as T);
+}
@@ -0,0 +1,238 @@
+// File: src/lib/parseExcel.ts
+
+import * as XLSX from 'xlsx';
+import { type Entry, type ColumnMapping, detectColumnMapping } from '@/lib/fields';
+
+// --- Type Definitions ---
+type Cell = unknown;
+
+/** A sheet of a workbook and the number of records read from it. */
+export type SheetSummary = { name: string; recordCount: number; };
+
+/** The sheets to read: named ones, or every sheet. Unset means the first sheet only. */
+export type SheetSelection = string[] | 'all';
+
+/** Describes how a spreadsheet was read, so callers can explain odd results to users. */
+export type IngestionReport = {
+  sheetName: string;
+  headerRowIndex: number; // 0-based index of the row used as the header.
+  headerReason: string;
+  headers: string[];
+  columnMapping: ColumnMapping;
+  rowsAboveHeader: number; // Title or banner rows skipped above the header.
+  skippedRows: number; // Phantom rows below the header with no values.
+  recordCount: number;
+  /** Each sheet read, when several were merged; their rows carry the sheet name in the 'Sheet' column. */
+  sheets?: SheetSummary[];
+};
+
+export type ParsedSpreadsheet = {
+  rows: Entry[];
+  headers: string[];
+  report: IngestionReport;
+};
+
+// --- Configuration Constants ---
+const HEADER_KEYWORDS = ['ssid', 'nin', 'name', 'id', 'pension', 'account', 'bank', 'verification', 'no', 's/n', 'firstname', 'lastname'];
+const HEADER_SCAN_ROWS = 10; // Only the first rows are considered as header candidates.
+export const SHEET_COLUMN = 'Sheet';
+const SHEET_NOT_FOUND = 'SheetNotFoundError';
+
+// --- Helper Functions ---
+function isBlank(value: Cell): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Identifies the most probable header row in a spreadsheet: the mostly-text row
+ * among the first few that mentions the most known header keywords.
+ */
+function findBestHeaderRow(rows: Cell[][]): { index: number; reason: string; } {
+    let headerRowIndex = 0;
+    let maxKeywords = 0;
+    let matchedKeywords: string[] = [];
+
+    for (let i = 0; i < Math.min(HEADER_SCAN_ROWS, rows.length); i++) {
+        const row = rows[i];
+        if (!Array.isArray(row) || row.length === 0) continue;
+
+        const stringCellCount = row.filter(cell => typeof cell === 'string').length;
+        const totalCellCount = row.filter(cell => !isBlank(cell)).length;
+        if (totalCellCount < 2 || (stringCellCount / totalCellCount < 0.5)) continue;
+
+        const rowStr = row.join(' ').toLowerCase();
+        const keywords = HEADER_KEYWORDS.filter(k => rowStr.includes(k));
+        if (keywords.length > maxKeywords) {
+            maxKeywords = keywords.length;
+            headerRowIndex = i;
+            matchedKeywords = keywords;
+        }
+    }
+
+    const reason = maxKeywords > 0
+      ? `Row ${headerRowIndex + 1} matched ${maxKeywords} header keyword(s): ${matchedKeywords.join(', ')}.`
+      : 'No row resembled a header; the first row was used.';
+    return { index: headerRowIndex, reason };
+}
+
+export function isSheetSelection(value: unknown): value is SheetSelection {
+  return value === 'all' || (Array.isArray(value) && value.length > 0 && value.every(name => typeof name === 'string' && name));
+}
+
+/** True for the error thrown when a requested sheet is not in the workbook. */
+export function isSheetNotFoundError(error: unknown): error is Error {
+  return error instanceof Error && error.name === SHEET_NOT_FOUND;
+}
+
+function selectSheets(workbook: XLSX.WorkBook, selection?: SheetSelection): string[] {
+  if (!selection) return workbook.SheetNames.slice(0, 1);
+  if (selection === 'all') return workbook.SheetNames;
+  const missing = selection.filter(name => !workbook.SheetNames.includes(name));
+  if (missing.length > 0) {
+    const error = new Error(`Sheet(s) not found: ${missing.map(name => `'${name}'`).join(', ')}. The workbook has: ${workbook.SheetNames.map(name => `'${name}'`).join(', ')}.`);
+    error.name = SHEET_NOT_FOUND;
+    throw error;
+  }
+  return selection;
+}
+
+/**
+ * Combines separately parsed sheets into one set of rows. Each sheet keeps its
+ * own header row; every row records the sheet it came from.
+ */
+function mergeSheets(parsed: ParsedSpreadsheet[]): ParsedSpreadsheet {
+  const rows = parsed.flatMap(({ rows, report }) => rows.map(row => ({ [SHEET_COLUMN]: report.sheetName, ...row })));
+  const headers = Array.from(new Set([SHEET_COLUMN, ...parsed.flatMap(sheet => sheet.headers)]));
+  const reports = parsed.map(sheet => sheet.report);
+  return {
+    rows,
+    headers,
+    report: {
+      sheetName: reports.map(report => report.sheetName).join(', '),
+      headerRowIndex: reports[0].headerRowIndex,
+      headerReason: reports.map(report => `'${report.sheetName}': ${report.headerReason}`).join(' '),
+      headers,
+      columnMapping: detectColumnMapping(headers),
+      rowsAboveHeader: reports.reduce((sum, report) => sum + report.rowsAboveHeader, 0),
+      skippedRows: reports.reduce((sum, report) => sum + report.skippedRows, 0),
+      recordCount: rows.length,
+      sheets: reports.map(report => ({ name: report.sheetName, recordCount: report.recordCount })),
+    },
+  };
+}
+
+// --- Core Parsing Functions ---
+/**
+ * Parses one sheet of a workbook into Entry objects keyed by the detected
+ * header row, skipping title rows above it and empty rows below it.
+ */
+function parseSheet(workbook: XLSX.WorkBook, sheetName: string): ParsedSpreadsheet {
+    const sheet = workbook.Sheets[sheetName];
+
+    const rowsAsArrays: Cell[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null });
+    if (rowsAsArrays.length === 0) {
+        return {
+            rows: [],
+            headers: [],
+            report: { sheetName, headerRowIndex: 0, headerReason: 'The sheet is empty.', headers: [], columnMapping: {}, rowsAboveHeader: 0, skippedRows: 0, recordCount: 0 },
+        };
+    }
+
+    const { index: headerRowIndex, reason: headerReason } = findBestHeaderRow(rowsAsArrays);
+    const headerArray: string[] = rowsAsArrays[headerRowIndex].map(h => String(h ?? '').trim());
+    const dataRowsAsArrays = rowsAsArrays.slice(headerRowIndex + 1);
+
+    const rows: Entry[] = [];
+    let skippedRows = 0;
+    for (const rowArray of dataRowsAsArrays) {
+        const entry: Entry = {};
+        headerArray.forEach((header, index) => {
+            if (header) entry[header] = rowArray[index];
+        });
+        // Rows that are entirely empty after mapping are formatting leftovers, not records.
+        if (Object.values(entry).some(value => !isBlank(value))) {
+            rows.push(entry);
+        } else {
+            skippedRows++;
+        }
+    }
+
+    const headers = headerArray.filter(h => h);
+    return {
+        rows,
+        headers,
+        report: {
+            sheetName,
+            headerRowIndex,
+            headerReason,
+            headers,
+            columnMapping: detectColumnMapping(headers),
+            rowsAboveHeader: headerRowIndex,
+            skippedRows,
+            recordCount: rows.length,
+        },
+    };
+}
+
+/**
+ * Parses an Excel/CSV workbook: its first sheet, or the selected sheets merged
+ * with a 'Sheet' column. Throws a sheet-not-found error for unknown sheet names.
+ */
+export function parseSpreadsheet(data: ArrayBuffer, selection?: SheetSelection): ParsedSpreadsheet {
+    const workbook = XLSX.read(data);
+    const sheetNames = selectSheets(workbook, selection);
+    if (sheetNames.length === 1) return parseSheet(workbook, sheetNames[0]);
+    return mergeSheets(sheetNames.map(name => parseSheet(workbook, name)));
+}
+
+/**
+ * Reads records sent as JSON objects, e.g. to the public API, as if they were
+ * a sheet: the columns are their keys in first-seen order.
+ */
+export function parseRecords(records: Entry[]): ParsedSpreadsheet {
+    const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    const rows = records.filter(record => Object.values(record).some(value => !isBlank(value)));
+    return {
+        rows,
+        headers,
+        report: {
+            sheetName: 'records',
+            headerRowIndex: 0,
+            headerReason: 'Records were sent as JSON; their keys are the columns.',
+            headers,
+            columnMapping: detectColumnMapping(headers),
+            rowsAboveHeader: 0,
+            skippedRows: records.length - rows.length,
+            recordCount: rows.length,
+        },
+    };
+}
+
+/**
+ * parseSpreadsheet plus every sheet of the workbook with its record count, in
+ * workbook order, for a file being inspected before validation or lookup: the
+ * workbook and each of its sheets are parsed once.
+ */
+export function inspectSpreadsheet(data: ArrayBuffer, selection?: SheetSelection): ParsedSpreadsheet & { sheets: SheetSummary[]; } {
+    const workbook = XLSX.read(data);
+    const sheetNames = selectSheets(workbook, selection);
+    const parsedSheets = new Map(workbook.SheetNames.map(name => [name, parseSheet(workbook, name)]));
+    const sheets = workbook.SheetNames.map(name => ({ name, recordCount: parsedSheets.get(name)?.report.recordCount ?? 0 }));
+
+    const selected = sheetNames.map(name => parsedSheets.get(name) ?? parseSheet(workbook, name));
+    const parsed = selected.length === 1 ? selected[0] : mergeSheets(selected);
+    return { ...parsed, sheets };
+}
+
+export async function downloadSpreadsheet(url: string): Promise<ArrayBuffer> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch file: ${response.statusText}`);
+    }
+    return response.arrayBuffer();
+}
+
+/** Downloads a spreadsheet and parses it with `parseSpreadsheet`. */
+export async function parseSpreadsheetFromUrl(url: string, selection?: SheetSelection): Promise<ParsedSpreadsheet> {
+    return parseSpreadsheet(await downloadSpreadsheet(url), selection);
+}
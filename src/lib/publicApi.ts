@@ -0,0 +1,102 @@
+// File: src/lib/publicApi.ts
+// Shared handling for the /api/v1 routes: the API key check with its rate
+// limit headers, usage counting, and reading records sent as JSON or a file
+// sent as a multipart upload.
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { type ApiEndpoint, checkApiKey, recordApiUsage } from '@/lib/apiKeys';
+import type { Entry } from '@/lib/fields';
+import { type ParsedSpreadsheet, type SheetSelection, isSheetNotFoundError, isSheetSelection, parseRecords, parseSpreadsheet } from '@/lib/parseExcel';
+
+// --- Type Definitions ---
+/** A v1 request's fields, and the file it carried when it was a multipart upload. */
+export type ApiInput = { body: Record<string, unknown>; file: { name: string; data: ArrayBuffer; } | null; };
+
+/** What a v1 handler answers with, and the rows it processed for the key's usage counters. */
+export type ApiResult = { status: number; body: unknown; rows: number; };
+
+/** Submitted rows, with an id derived from their content that tells a re-submission apart from a new one. */
+export type SubmittedRows = ParsedSpreadsheet & { contentId: string; };
+
+// --- Configuration Constants ---
+// Multipart fields holding JSON; 'sheets' may also be the plain string 'all'.
+const JSON_FIELDS = ['records', 'lookups', 'columnMapping', 'profile', 'sheets'];
+const NUMBER_FIELDS = ['historyWindowDays'];
+
+// --- Helper Functions ---
+function contentId(data: ArrayBuffer | string): string {
+  const hash = createHash('sha256');
+  hash.update(typeof data === 'string' ? data : new Uint8Array(data));
+  return `api:sha256:${hash.digest('hex')}`;
+}
+
+function isPlainObject(value: unknown): value is Entry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function readInput(req: Request): Promise<ApiInput | { error: string; }> {
+  const contentType = req.headers.get('content-type') ?? '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const body: Record<string, unknown> = {};
+    let file: ApiInput['file'] = null;
+    for (const [field, value] of (await req.formData()).entries()) {
+      if (typeof value !== 'string') {
+        if (field === 'file') file = { name: value.name, data: await value.arrayBuffer() };
+        continue;
+      }
+      if (JSON_FIELDS.includes(field) && /^\s*[[{]/.test(value)) {
+        try {
+          body[field] = JSON.parse(value);
+        } catch {
+          return { error: `${field} must be valid JSON.` };
+        }
+      } else {
+        body[field] = NUMBER_FIELDS.includes(field) ? Number(value) : value;
+      }
+    }
+    return { body, file };
+  }
+
+  if (!contentType.includes('application/json')) return { error: 'Send JSON (application/json) or a file upload (multipart/form-data).' };
+  const body = await req.json().catch(() => null);
+  if (!isPlainObject(body)) return { error: 'Request body must be a JSON object.' };
+  return { body, file: null };
+}
+
+// --- Public API ---
+/**
+ * Runs a v1 handler for a request carrying a valid API key within its rate
+ * limit, and counts it in the key's usage. Answers 401 without a valid key,
+ * 429 over the limit (with Retry-After), and 400 for an unreadable body.
+ */
+export async function handleApiRequest(req: Request, endpoint: ApiEndpoint, handler: (input: ApiInput) => Promise<ApiResult>): Promise<NextResponse> {
+  const check = await checkApiKey(req);
+  if ('error' in check) {
+    return NextResponse.json({ error: check.error }, { status: check.status, headers: check.retryAfter ? { 'Retry-After': String(check.retryAfter) } : undefined });
+  }
+  const headers = { 'X-RateLimit-Limit': String(check.key.rateLimit), 'X-RateLimit-Remaining': String(check.remaining) };
+
+  const input = await readInput(req);
+  const result: ApiResult = 'error' in input ? { status: 400, body: { error: input.error }, rows: 0 } : await handler(input);
+  await recordApiUsage(check.key.id, endpoint, result.rows);
+  return NextResponse.json(result.body, { status: result.status, headers });
+}
+
+/** The rows of a v1 request: its `records` array, or the sheets of its uploaded file. */
+export function readSubmittedRows({ body, file }: ApiInput): SubmittedRows | { error: string; } {
+  if (file) {
+    if (body.sheets !== undefined && !isSheetSelection(body.sheets)) return { error: 'sheets must be "all" or an array of sheet names.' };
+    try {
+      return { ...parseSpreadsheet(file.data, body.sheets as SheetSelection | undefined), contentId: contentId(file.data) };
+    } catch (error) {
+      if (isSheetNotFoundError(error)) return { error: error.message };
+      return { error: 'The uploaded file could not be read as a spreadsheet.' };
+    }
+  }
+  if (!Array.isArray(body.records) || body.records.length === 0 || !body.records.every(isPlainObject)) {
+    return { error: 'Send records as a non-empty array of objects, or upload a file in the "file" field.' };
+  }
+  return { ...parseRecords(body.records), contentId: contentId(JSON.stringify(body.records)) };
+}
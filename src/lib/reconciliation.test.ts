@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileFiles } from '@/lib/reconciliation';
+
+const csvUrl = (lines: string[]) => `data:text/csv;base64,${Buffer.from(lines.join('\n')).toString('base64')}`;
+
+const FILE_A = csvUrl([
+  'SSID,NIN,Full Name,Phone,LGA',
+  'SS1001,12345678901,Adebayo Ogunleye,08031234567,Ikeja',
+  'SS1002,22345678901,Chiamaka Eze,,Ikeja',
+  ',32345678901,Ibrahim Musa,,Kano',
+  ',,Funmilayo Adeyemi,,Oyo',
+  'SS1005,,Tunde Bakare,,Lagos',
+]);
+
+const FILE_B = csvUrl([
+  'SSID,NIN,Full Name,Phone,LGA',
+  ',32345678901,Ibrahim Musa,,Kano',
+  'SS1001,12345678901,ADEBAYO  OGUNLEYE,+234 803 123 4567,Ikeja',
+  'SS1002,22345678901,Chiamaka Eze,,Epe',
+  ',,Funmilayo Adeyemi,,Oyo',
+  'SS1009,,Tunde Bakare,,Lagos',
+]);
+
+describe('reconcileFiles', () => {
+  it('pairs rows by SSID, then NIN, then name, never across conflicting identifiers', async () => {
+    const reconciliation = await reconcileFiles({ fileA: FILE_A, fileB: FILE_B });
+    if ('error' in reconciliation) throw new Error(reconciliation.error);
+
+    expect(reconciliation.rows.map(({ rowA, rowB, pairedBy, status }) => ({ rowA, rowB, pairedBy, status }))).toEqual([
+      { rowA: 1, rowB: 2, pairedBy: 'SSID', status: 'Identical' },
+      { rowA: 2, rowB: 3, pairedBy: 'SSID', status: 'Changed' },
+      { rowA: 3, rowB: 1, pairedBy: 'NIN', status: 'Identical' },
+      { rowA: 4, rowB: 4, pairedBy: 'Name', status: 'Identical' },
+      { rowA: 5, rowB: null, pairedBy: null, status: 'Only in A' },
+      { rowA: null, rowB: 5, pairedBy: null, status: 'Only in B' },
+    ]);
+    expect(reconciliation.summary).toMatchObject({
+      onlyInA: 1,
+      onlyInB: 1,
+      changed: 1,
+      identical: 3,
+      pairedBy: { ssid: 2, nin: 1, name: 1 },
+    });
+  });
+
+  it('reports the columns that differ, comparing identifiers and extra fields in canonical form', async () => {
+    const reconciliation = await reconcileFiles({ fileA: FILE_A, fileB: FILE_B });
+    if ('error' in reconciliation) throw new Error(reconciliation.error);
+
+    expect(reconciliation.rows[0].differences).toEqual([]);
+    expect(reconciliation.rows[1].differences).toEqual([{ field: 'LGA', a: 'Ikeja', b: 'Epe' }]);
+  });
+
+  it('rejects a request without both files', async () => {
+    expect(await reconcileFiles({ fileA: FILE_A })).toHaveProperty('error');
+  });
+});
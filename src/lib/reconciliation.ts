@@ -0,0 +1,261 @@
+// File: src/lib/reconciliation.ts
+// Two-file reconciliation: compares two submissions of the same beneficiary
+// list (e.g. an LGA and a state submission) with each other. Neither file is
+// the master list. Rows are paired by SSID, then NIN, then name, and each row
+// is reported as only in one file, identical, or changed with its field diffs.
+
+import { type ColumnMapping, type Entry, EXTRA_FIELD_LABELS, EXTRA_FIELD_ROLES, extractFullName, extractRole, normalize } from '@/lib/fields';
+import { compareFieldValues } from '@/lib/fieldComparison';
+import { type MatchConfig, type MatchSubject, compareNames, toMatchSubject } from '@/lib/matcher';
+import { type MatchingProfile, resolveMatchingProfile, validateMatchingProfile } from '@/lib/matchingProfiles';
+import { blockByName, buildNameIndex } from '@/lib/nameIndex';
+import { type IngestionReport, type ParsedSpreadsheet, type SheetSelection, isSheetNotFoundError, isSheetSelection, parseSpreadsheetFromUrl } from '@/lib/parseExcel';
+import { MAX_ENTRIES_LIMIT } from '@/lib/validation';
+
+// --- Type Definitions ---
+export type ReconciliationStatus = 'Only in A' | 'Only in B' | 'Changed' | 'Identical';
+
+/** A field whose value differs between the paired rows. */
+export type FieldDifference = { field: string; a: string; b: string; };
+
+export type ReconciledRow = {
+  status: ReconciliationStatus;
+  /** How the two rows were paired; null for a row found in one file only. */
+  pairedBy: 'SSID' | 'NIN' | 'Name' | null;
+  /** Name similarity of a paired row, 0-100. */
+  nameScore: number | null;
+  /** 1-based position of the row among the file's data rows. */
+  rowA: number | null;
+  rowB: number | null;
+  /** Identifiers and name of the row, read from file A when it has the row. */
+  ssid: string;
+  nin: string;
+  name: string;
+  differences: FieldDifference[];
+  a: Entry | null;
+  b: Entry | null;
+};
+
+export type ReconciliationFile = { name: string; rows: number; headers: string[]; ingestion: IngestionReport; };
+
+export type ReconciliationSummary = {
+  onlyInA: number;
+  onlyInB: number;
+  changed: number;
+  identical: number;
+  pairedBy: { ssid: number; nin: number; name: number; };
+  fileA: ReconciliationFile;
+  fileB: ReconciliationFile;
+  matchingProfile: MatchingProfile;
+};
+
+export type Reconciliation = { rows: ReconciledRow[]; summary: ReconciliationSummary; };
+
+/** The request body fields a reconciliation is configured from. */
+export type ReconciliationRequest = { fileA?: unknown; fileB?: unknown; fileNameA?: unknown; fileNameB?: unknown; sheetsA?: unknown; sheetsB?: unknown; profile?: unknown; };
+
+/** One parsed file, with the identifying fields of each row. */
+type Side = { entries: Entry[]; subjects: MatchSubject[]; mapping: ColumnMapping; headers: string[]; };
+
+type Pairing = { a: number | null; b: number | null; pairedBy: ReconciledRow['pairedBy']; nameScore: number | null; };
+
+// --- Configuration Constants ---
+const NAME_BLOCK_LIMIT = 50; // Unpaired rows of file B scored per name fallback.
+
+// --- Helper Functions ---
+async function parseFile(url: string, sheets?: SheetSelection): Promise<ParsedSpreadsheet | { error: string; }> {
+  try {
+    return await parseSpreadsheetFromUrl(url, sheets);
+  } catch (error) {
+    if (isSheetNotFoundError(error)) return { error: error.message };
+    console.error(`Error parsing file from URL ${url}:`, error);
+    throw new Error('Could not read or parse the file from storage.');
+  }
+}
+
+function toSide(parsed: ParsedSpreadsheet): Side {
+  const mapping = parsed.report.columnMapping;
+  return { entries: parsed.rows, subjects: parsed.rows.map(entry => toMatchSubject(entry, mapping)), mapping, headers: parsed.headers };
+}
+
+/** Case and spacing are not differences. */
+function canonicalText(value: string): string {
+  return normalize(value).replace(/\s+/g, ' ');
+}
+
+/** Two rows with different SSIDs, or different NINs, are different people whatever their names. */
+function identifiersConflict(a: MatchSubject, b: MatchSubject): boolean {
+  const differs = (x: string, y: string) => Boolean(x && y && normalize(x) !== normalize(y));
+  return differs(a.ssid, b.ssid) || differs(a.nin, b.nin);
+}
+
+/**
+ * Pairs rows that share an SSID, then rows that share a NIN. Rows repeating
+ * an identifier pair up in file order; the leftovers stay unpaired.
+ */
+function pairByIdentifier(a: Side, b: Side, field: 'ssid' | 'nin', partnerOfA: Pairing[], pairedB: boolean[]): void {
+  const unpairedB = new Map<string, number[]>();
+  b.subjects.forEach((subject, index) => {
+    const key = normalize(subject[field]);
+    if (!key || pairedB[index]) return;
+    const queue = unpairedB.get(key);
+    if (queue) queue.push(index);
+    else unpairedB.set(key, [index]);
+  });
+
+  a.subjects.forEach((subject, index) => {
+    const key = normalize(subject[field]);
+    if (!key || partnerOfA[index]) return;
+    const match = unpairedB.get(key)?.shift();
+    if (match === undefined) return;
+    pairedB[match] = true;
+    partnerOfA[index] = { a: index, b: match, pairedBy: field === 'ssid' ? 'SSID' : 'NIN', nameScore: null };
+  });
+}
+
+/**
+ * Pairs the remaining rows by name, most similar pairs first, when the names
+ * reach the profile's threshold and the identifiers do not conflict. On equal
+ * scores, identical names win, then file order.
+ */
+function pairByName(a: Side, b: Side, config: MatchConfig, partnerOfA: Pairing[], pairedB: boolean[]): void {
+  const positionInB = new Map<Entry, number>(b.entries.map((entry, index) => [entry, index]));
+  const nameIndex = buildNameIndex(b.entries.filter((_, index) => !pairedB[index]), entry => extractFullName(entry, b.mapping));
+
+  const edges: { a: number; b: number; score: number; identical: boolean; }[] = [];
+  a.subjects.forEach((subject, index) => {
+    if (partnerOfA[index] || !subject.name) return;
+    for (const { record } of blockByName(subject.name, nameIndex, NAME_BLOCK_LIMIT)) {
+      const candidate = positionInB.get(record);
+      if (candidate === undefined || identifiersConflict(subject, b.subjects[candidate])) continue;
+      const { score } = compareNames(subject.name, b.subjects[candidate].name, config);
+      if (score >= config.nameThreshold) edges.push({ a: index, b: candidate, score, identical: canonicalText(subject.name) === canonicalText(b.subjects[candidate].name) });
+    }
+  });
+
+  edges.sort((x, y) => y.score - x.score || Number(y.identical) - Number(x.identical) || x.a - y.a || x.b - y.b);
+  for (const edge of edges) {
+    if (partnerOfA[edge.a] || pairedB[edge.b]) continue;
+    pairedB[edge.b] = true;
+    partnerOfA[edge.a] = { a: edge.a, b: edge.b, pairedBy: 'Name', nameScore: edge.score };
+  }
+}
+
+/**
+ * The fields that differ between two paired rows: SSID, NIN, name and the
+ * extra fields read through each file's own columns, then every other column
+ * the two files share by header.
+ */
+function diffRows(a: Side, b: Side, indexA: number, indexB: number): FieldDifference[] {
+  const [rowA, rowB] = [a.entries[indexA], b.entries[indexB]];
+  const [subjectA, subjectB] = [a.subjects[indexA], b.subjects[indexB]];
+  const differences: FieldDifference[] = [];
+
+  if (canonicalText(subjectA.ssid) !== canonicalText(subjectB.ssid)) differences.push({ field: 'SSID', a: subjectA.ssid, b: subjectB.ssid });
+  if (canonicalText(subjectA.nin) !== canonicalText(subjectB.nin)) differences.push({ field: 'NIN', a: subjectA.nin, b: subjectB.nin });
+  if (canonicalText(subjectA.name) !== canonicalText(subjectB.name)) differences.push({ field: 'Name', a: subjectA.name, b: subjectB.name });
+
+  for (const field of EXTRA_FIELD_ROLES) {
+    const [valueA, valueB] = [extractRole(rowA, field, a.mapping), extractRole(rowB, field, b.mapping)];
+    // Values are compared in canonical form, so '08031234567' and '+234 803 123 4567' agree.
+    const status = compareFieldValues(field, valueA, valueB);
+    if (status === 'Mismatch' || (status === 'Not Compared' && canonicalText(valueA) !== canonicalText(valueB))) {
+      differences.push({ field: EXTRA_FIELD_LABELS[field], a: valueA, b: valueB });
+    }
+  }
+
+  const roleHeaders = new Set([...Object.values(a.mapping), ...Object.values(b.mapping)]);
+  for (const header of a.headers) {
+    if (roleHeaders.has(header) || !b.headers.includes(header)) continue;
+    const [valueA, valueB] = [String(rowA[header] ?? '').trim(), String(rowB[header] ?? '').trim()];
+    if (canonicalText(valueA) !== canonicalText(valueB)) differences.push({ field: header, a: valueA, b: valueB });
+  }
+  return differences;
+}
+
+function toRow(a: Side, b: Side, { a: indexA, b: indexB, pairedBy, nameScore }: Pairing): ReconciledRow {
+  const subject = indexA !== null ? a.subjects[indexA] : indexB !== null ? b.subjects[indexB] : { ssid: '', nin: '', name: '' };
+  const differences = indexA !== null && indexB !== null ? diffRows(a, b, indexA, indexB) : [];
+  const status: ReconciliationStatus = indexB === null ? 'Only in A' : indexA === null ? 'Only in B' : differences.length > 0 ? 'Changed' : 'Identical';
+  return {
+    status,
+    pairedBy,
+    nameScore,
+    rowA: indexA !== null ? indexA + 1 : null,
+    rowB: indexB !== null ? indexB + 1 : null,
+    ssid: subject.ssid,
+    nin: subject.nin,
+    name: subject.name,
+    differences,
+    a: indexA !== null ? a.entries[indexA] : null,
+    b: indexB !== null ? b.entries[indexB] : null,
+  };
+}
+
+// --- Public API ---
+export function checkReconciliationRequest(request: ReconciliationRequest): string | null {
+  if (!request.fileA || typeof request.fileA !== 'string' || !request.fileB || typeof request.fileB !== 'string') return 'Request body must include fileA and fileB URL strings.';
+  for (const sheets of [request.sheetsA, request.sheetsB]) {
+    if (sheets !== undefined && sheets !== null && !isSheetSelection(sheets)) return 'sheetsA and sheetsB must be "all" or an array of sheet names.';
+  }
+  if (request.profile !== undefined && request.profile !== null) return validateMatchingProfile(request.profile);
+  return null;
+}
+
+/**
+ * Parses both files and reconciles them: rows of file A in file order, each
+ * with its partner from file B if it has one, then the rows only in file B.
+ * Returns `{ error }` for a request the caller should reject as bad input;
+ * throws on failures to load either file.
+ */
+export async function reconcileFiles(request: ReconciliationRequest): Promise<Reconciliation | { error: string; }> {
+  const requestError = checkReconciliationRequest(request);
+  if (requestError) return { error: requestError };
+
+  const parsedA = await parseFile(request.fileA as string, (request.sheetsA ?? undefined) as SheetSelection | undefined);
+  if ('error' in parsedA) return { error: `File A: ${parsedA.error}` };
+  const parsedB = await parseFile(request.fileB as string, (request.sheetsB ?? undefined) as SheetSelection | undefined);
+  if ('error' in parsedB) return { error: `File B: ${parsedB.error}` };
+  for (const [label, parsed] of [['A', parsedA], ['B', parsedB]] as const) {
+    if (parsed.rows.length > MAX_ENTRIES_LIMIT) throw new Error(`File ${label} exceeds limit of ${MAX_ENTRIES_LIMIT} records.`);
+  }
+
+  const profile = resolveMatchingProfile(request.profile as Partial<MatchingProfile> | null | undefined);
+  const config: MatchConfig = { ...profile, strictIdentifiers: false };
+  const [a, b] = [toSide(parsedA), toSide(parsedB)];
+
+  const partnerOfA: Pairing[] = new Array(a.entries.length);
+  const pairedB: boolean[] = new Array(b.entries.length).fill(false);
+  pairByIdentifier(a, b, 'ssid', partnerOfA, pairedB);
+  pairByIdentifier(a, b, 'nin', partnerOfA, pairedB);
+  pairByName(a, b, config, partnerOfA, pairedB);
+
+  const pairings: Pairing[] = [
+    ...a.entries.map((_, index) => partnerOfA[index] ?? { a: index, b: null, pairedBy: null, nameScore: null }),
+    ...b.entries.flatMap((_, index) => pairedB[index] ? [] : [{ a: null, b: index, pairedBy: null, nameScore: null }]),
+  ];
+  const rows = pairings.map(pairing => toRow(a, b, pairing));
+
+  const count = (status: ReconciliationStatus) => rows.filter(row => row.status === status).length;
+  const countPaired = (pairedBy: ReconciledRow['pairedBy']) => rows.filter(row => row.pairedBy === pairedBy).length;
+  const describeFile = (parsed: ParsedSpreadsheet, name: unknown, fallback: string): ReconciliationFile => ({
+    name: typeof name === 'string' && name ? name : fallback,
+    rows: parsed.rows.length,
+    headers: parsed.headers,
+    ingestion: parsed.report,
+  });
+
+  return {
+    rows,
+    summary: {
+      onlyInA: count('Only in A'),
+      onlyInB: count('Only in B'),
+      changed: count('Changed'),
+      identical: count('Identical'),
+      pairedBy: { ssid: countPaired('SSID'), nin: countPaired('NIN'), name: countPaired('Name') },
+      fileA: describeFile(parsedA, request.fileNameA, 'File A'),
+      fileB: describeFile(parsedB, request.fileNameB, 'File B'),
+      matchingProfile: profile,
+    },
+  };
+}
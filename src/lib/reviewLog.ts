@@ -0,0 +1,42 @@
+// File: src/lib/reviewLog.ts
+// Stores reviewer decisions per validation run as an append-only log, so a
+// changed decision never erases the one before it. The latest entry for a
+// row is its current decision.
+
+import { appendLines, deleteLines, readLines } from '@/lib/store';
+import type { ReviewDecision, ReviewDecisionInput, ReviewTarget } from '@/lib/reviews';
+
+// --- Configuration Constants ---
+const REVIEWS = 'reviews';
+
+// --- Public API ---
+/** Records a decision; `target` is what the run's result row holds, never taken from the request. */
+export async function recordReviewDecision(runId: string, input: ReviewDecisionInput, target: ReviewTarget): Promise<ReviewDecision> {
+  const decision: ReviewDecision = {
+    row: input.row,
+    action: input.action,
+    note: input.note.trim(),
+    reviewer: input.reviewer.trim(),
+    decidedAt: new Date().toISOString(),
+    matchStatus: target.matchStatus,
+  };
+  if (input.action === 'correct' && target.correction) decision.correction = target.correction;
+  await appendLines(REVIEWS, runId, [decision]);
+  return decision;
+}
+
+/** Every decision made on a run, oldest first. */
+export async function getReviewHistory(runId: string): Promise<ReviewDecision[]> {
+  return readLines<ReviewDecision>(REVIEWS, runId);
+}
+
+/** The current decision for each decided row, in row order. */
+export async function getReviewDecisions(runId: string): Promise<ReviewDecision[]> {
+  const latest = new Map<number, ReviewDecision>();
+  for (const decision of await getReviewHistory(runId)) latest.set(decision.row, decision);
+  return Array.from(latest.values()).sort((a, b) => a.row - b.row);
+}
+
+export async function deleteReviewDecisions(runId: string): Promise<void> {
+  await deleteLines(REVIEWS, runId);
+}
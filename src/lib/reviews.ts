@@ -0,0 +1,99 @@
+// File: src/lib/reviews.ts
+// Reviewer decisions on the rows a validation run could not settle. Kept free
+// of server-only dependencies so pages can import the types and export columns.
+
+import type { Entry } from '@/lib/fields';
+
+// --- Type Definitions ---
+export const REVIEW_ACTIONS = ['approve', 'reject', 'correct'] as const;
+export type ReviewAction = typeof REVIEW_ACTIONS[number];
+
+/** The source record's identifiers and name, accepted in place of the submitted ones. */
+export type ReviewCorrection = { ssid: string; nin: string; name: string; };
+
+export type ReviewDecision = {
+  /** 1-based position of the row in the run's results. */
+  row: number;
+  action: ReviewAction;
+  note: string;
+  reviewer: string;
+  decidedAt: string;
+  /** The row's status when it was decided, so the decision reads on its own. */
+  matchStatus: string;
+  correction?: ReviewCorrection;
+};
+
+/** What a reviewer sends. The row's status and any correction are read from the run's results on the server. */
+export type ReviewDecisionInput = Pick<ReviewDecision, 'row' | 'action' | 'note' | 'reviewer'>;
+
+/** What a decision records from the result row it settles. */
+export type ReviewTarget = Pick<ReviewDecision, 'matchStatus' | 'correction'>;
+
+// --- Configuration Constants ---
+/** Statuses a reviewer settles; Valid rows need no decision and Needs Identifier rows a new identifier. */
+export const REVIEWABLE_STATUSES = ['Partial Match', 'Probable Typo', 'Invalid'];
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  correct: 'Corrected',
+};
+
+export const REVIEW_COLUMNS = ['Review Decision', 'Review Note', 'Reviewed By', 'Reviewed At', 'Corrected SSID', 'Corrected NIN', 'Corrected Name'];
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_REVIEWER_LENGTH = 100;
+
+// --- Helper Functions ---
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/** The source record's values a run reported for the row, if it found one. */
+export function sourceCorrection(row: Entry): ReviewCorrection | null {
+  const correction = { ssid: String(row['Correct SSID'] ?? '').trim(), nin: String(row['Correct NIN'] ?? '').trim(), name: String(row['Matched Name'] ?? '').trim() };
+  return correction.ssid || correction.nin || correction.name ? correction : null;
+}
+
+/** The export columns for a row; empty values when it has no decision. */
+export function reviewColumns(decision?: ReviewDecision): Record<string, string> {
+  return {
+    'Review Decision': decision ? REVIEW_ACTION_LABELS[decision.action] : '',
+    'Review Note': decision?.note ?? '',
+    'Reviewed By': decision?.reviewer ?? '',
+    'Reviewed At': decision?.decidedAt ?? '',
+    'Corrected SSID': decision?.correction?.ssid ?? '',
+    'Corrected NIN': decision?.correction?.nin ?? '',
+    'Corrected Name': decision?.correction?.name ?? '',
+  };
+}
+
+// --- Validation ---
+/** Returns a message describing the first problem with a decision from a request body, or null. */
+export function validateReviewDecision(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return 'The decision must be an object.';
+  const decision = input as Partial<ReviewDecisionInput>;
+
+  if (typeof decision.row !== 'number' || !Number.isInteger(decision.row) || decision.row < 1) return 'row must be a positive whole number.';
+  if (!REVIEW_ACTIONS.includes(decision.action as ReviewAction)) return `action must be one of: ${REVIEW_ACTIONS.join(', ')}.`;
+  if (!isNonEmptyString(decision.note)) return 'A note explaining the decision is required.';
+  if (decision.note.length > MAX_NOTE_LENGTH) return `The note must be at most ${MAX_NOTE_LENGTH} characters.`;
+  if (!isNonEmptyString(decision.reviewer)) return 'reviewer must name who made the decision.';
+  if (decision.reviewer.length > MAX_REVIEWER_LENGTH) return `reviewer must be at most ${MAX_REVIEWER_LENGTH} characters.`;
+  return null;
+}
+
+/**
+ * What a decision on a run's result row records: the row's status and, for a
+ * correction, the source record's values the run matched it to. Returns
+ * `{ error }` when the row is not one a reviewer settles.
+ */
+export function reviewTarget(row: Entry, action: ReviewAction): ReviewTarget | { error: string; } {
+  const matchStatus = String(row['Match Status'] ?? '');
+  if (!REVIEWABLE_STATUSES.includes(matchStatus)) return { error: `Rows with status '${matchStatus}' are not reviewed; only ${REVIEWABLE_STATUSES.join(', ')} rows are.` };
+  if (action !== 'correct') return { matchStatus };
+
+  const correction = sourceCorrection(row);
+  if (!correction) return { error: 'The row has no matched master list record to correct it to.' };
+  return { matchStatus, correction };
+}
@@ -0,0 +1,246 @@
+// File: src/lib/sessions.ts
+// Saves every run made through /api/validate as a session: the request it was
+// started with, its rows as they are produced, and its summary, so the results
+// can be reopened after a page reload or from the history. Background jobs
+// keep their own records; they are listed here as sessions of kind 'job'.
+
+import { appendLines, deleteLines, deleteRecord, listRecords, readLines, readRecord, writeRecord } from '@/lib/store';
+import { type JobResults, type ValidationJob, getJob, getJobResults, listJobs } from '@/lib/jobs';
+import { deleteReviewDecisions, getReviewDecisions } from '@/lib/reviewLog';
+import { deleteSubmittedRun, recordSubmittedRows, recordSubmittedRun } from '@/lib/submissionHistory';
+import type { SourceListSummary } from '@/lib/sourceLists';
+import type { SourceSnapshot } from '@/lib/snapshots';
+import {
+  type PreparedValidation,
+  type ProcessedEntry,
+  type RunOptions,
+  type StatusCounts,
+  type ValidationOutcome,
+  type ValidationProgress,
+  type ValidationRequest,
+  type ValidationSummary,
+  emptyCounts,
+  runValidation,
+  summarizeValidation,
+  validationHeaders,
+} from '@/lib/validation';
+
+// --- Type Definitions ---
+/** `interrupted`: the server stopped while the run was in progress. */
+export type SessionStatus = 'running' | 'completed' | 'cancelled' | 'failed' | 'interrupted';
+
+/** A direct run's stored record; its id is the run id. */
+export type ValidationSession = {
+  id: string;
+  status: SessionStatus;
+  fileName: string;
+  request: ValidationRequest;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  headers: string[];
+  progress: ValidationProgress;
+  /** Covers the rows processed so far, so a cancelled run still has one. */
+  summary: ValidationSummary;
+  error?: string;
+};
+
+/** A direct run or a finished background job, as the history lists it. */
+export type SessionListing = {
+  id: string;
+  kind: 'direct' | 'job';
+  status: SessionStatus;
+  fileName: string;
+  createdAt: string;
+  startedAt: string;
+  finishedAt?: string;
+  processed: number;
+  total: number;
+  counts: StatusCounts;
+  duplicates: number;
+  sourceList: SourceListSummary | null;
+  snapshot: SourceSnapshot | null;
+  /** The source's name as the summary states it; null for a job that failed before loading it. */
+  sourceUsed: string | null;
+  /** Rows with a reviewer decision. */
+  reviewed: number;
+  error?: string;
+};
+
+export type SessionResults = JobResults & { session: SessionListing; };
+
+// --- Configuration Constants ---
+const SESSIONS = 'sessions';
+const SESSION_ROWS = 'session-rows';
+// A running session saves after every batch; one silent for this long belongs to a server that stopped.
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+// --- Helper Functions ---
+async function saveSession(session: ValidationSession): Promise<void> {
+  session.updatedAt = new Date().toISOString();
+  await writeRecord(SESSIONS, session.id, session);
+}
+
+function currentStatus(session: ValidationSession): SessionStatus {
+  if (session.status === 'running' && Date.now() - Date.parse(session.updatedAt) > STALE_RUN_MS) return 'interrupted';
+  return session.status;
+}
+
+async function listSession(session: ValidationSession): Promise<SessionListing> {
+  return {
+    id: session.id,
+    kind: 'direct',
+    status: currentStatus(session),
+    fileName: session.fileName,
+    createdAt: session.createdAt,
+    startedAt: session.createdAt,
+    finishedAt: session.finishedAt,
+    processed: session.progress.processed,
+    total: session.progress.total,
+    counts: session.progress.counts,
+    duplicates: session.progress.duplicates,
+    sourceList: session.summary.sourceList,
+    snapshot: session.summary.snapshot,
+    sourceUsed: session.summary.sourceUsed,
+    reviewed: (await getReviewDecisions(session.id)).length,
+    error: session.error,
+  };
+}
+
+function hasFinished(job: ValidationJob): boolean {
+  return job.status === 'completed' || job.status === 'cancelled' || job.status === 'failed';
+}
+
+async function listJob(job: ValidationJob): Promise<SessionListing> {
+  return {
+    id: job.id,
+    kind: 'job',
+    status: job.status as SessionStatus,
+    fileName: job.fileName,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? job.createdAt,
+    finishedAt: job.finishedAt,
+    processed: job.progress?.processed ?? 0,
+    total: job.progress?.total ?? 0,
+    counts: job.progress?.counts ?? emptyCounts(),
+    duplicates: job.progress?.duplicates ?? 0,
+    sourceList: job.summary?.sourceList ?? null,
+    snapshot: job.summary?.snapshot ?? null,
+    sourceUsed: job.summary?.sourceUsed ?? null,
+    reviewed: (await getReviewDecisions(job.id)).length,
+    error: job.error,
+  };
+}
+
+// --- Recording ---
+/**
+ * Runs a prepared validation like `runValidation`, saving it as a session as
+ * it goes. The session ends as completed, cancelled (the signal was aborted)
+ * or failed; errors are rethrown to the caller.
+ */
+export async function runSession(prepared: PreparedValidation, request: ValidationRequest, fileName: string | undefined, options: RunOptions = {}): Promise<ValidationOutcome> {
+  const now = new Date().toISOString();
+  const progress: ValidationProgress = { processed: 0, total: prepared.entries.length, counts: emptyCounts(), duplicates: 0, earlierSubmissions: 0 };
+  const session: ValidationSession = {
+    id: prepared.runId,
+    status: 'running',
+    fileName: fileName || 'Validation file',
+    // Pin the master list version, so the session records exactly what it was validated against.
+    request: prepared.snapshot ? { ...request, snapshot: prepared.snapshot.id } : request,
+    createdAt: now,
+    updatedAt: now,
+    headers: validationHeaders(prepared),
+    progress,
+    summary: summarizeValidation(prepared, progress),
+  };
+  await saveSession(session);
+  await recordSubmittedRun({ id: session.id, fileName: session.fileName, submittedAt: now, toValidateUrl: request.toValidateUrl as string });
+
+  try {
+    const outcome = await runValidation(prepared, {
+      ...options,
+      onBatch: async (rows, batchProgress) => {
+        await appendLines(SESSION_ROWS, session.id, rows);
+        await recordSubmittedRows(session.id, rows, batchProgress.processed - rows.length, prepared.mapping);
+        session.progress = batchProgress;
+        session.summary = summarizeValidation(prepared, batchProgress);
+        await saveSession(session);
+        await options.onBatch?.(rows, batchProgress);
+      },
+    });
+    session.status = 'completed';
+    session.summary = outcome.summary;
+    return outcome;
+  } catch (error) {
+    if (options.signal?.aborted) {
+      session.status = 'cancelled';
+    } else {
+      session.status = 'failed';
+      session.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    throw error;
+  } finally {
+    session.finishedAt = new Date().toISOString();
+    await saveSession(session);
+  }
+}
+
+// --- Public API ---
+/** Direct runs and finished background jobs, newest first. */
+export async function listSessions(): Promise<SessionListing[]> {
+  const sessions = await Promise.all((await listRecords<ValidationSession>(SESSIONS)).map(listSession));
+  const jobs = await Promise.all((await listJobs()).filter(hasFinished).map(listJob));
+  return [...sessions, ...jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSession(id: string): Promise<SessionListing | null> {
+  const session = await readRecord<ValidationSession>(SESSIONS, id);
+  if (session) return listSession(session);
+  const job = await getJob(id);
+  return job && hasFinished(job) ? listJob(job) : null;
+}
+
+/**
+ * The rows and summary of a session, in the shape of a synchronous
+ * /api/validate response. Null for unknown sessions and unfinished jobs.
+ */
+export async function getSessionResults(id: string): Promise<SessionResults | null> {
+  const session = await readRecord<ValidationSession>(SESSIONS, id);
+  if (session) {
+    const results = await readLines<ProcessedEntry>(SESSION_ROWS, id, session.progress.processed);
+    return { session: await listSession(session), headers: session.headers, results, summary: session.summary };
+  }
+  const [job, results] = [await getJob(id), await getJobResults(id)];
+  return job && results ? { ...results, session: await listJob(job) } : null;
+}
+
+/**
+ * One result row of a session by its 1-based position, read without loading
+ * the rows after it. Null for unknown sessions and unfinished jobs; `row` is
+ * undefined when the session has no such row.
+ */
+export async function getSessionRow(id: string, row: number): Promise<{ row: ProcessedEntry | undefined; } | null> {
+  const session = await readRecord<ValidationSession>(SESSIONS, id);
+  if (session) {
+    const rows = await readLines<ProcessedEntry>(SESSION_ROWS, id, Math.min(row, session.progress.processed));
+    return { row: rows[row - 1] };
+  }
+  const results = await getJobResults(id, row);
+  return results && { row: results.results[row - 1] };
+}
+
+/**
+ * Deletes a direct run's session, rows, review decisions and submission history. Returns false
+ * for unknown sessions, and `{ error }` for a running session or a job.
+ */
+export async function deleteSession(id: string): Promise<boolean | { error: string; }> {
+  const session = await readRecord<ValidationSession>(SESSIONS, id);
+  if (!session) return (await getJob(id)) ? { error: 'Background job sessions are kept with their job.' } : false;
+  if (currentStatus(session) === 'running') return { error: 'The session is still running.' };
+
+  await deleteLines(SESSION_ROWS, id);
+  await deleteReviewDecisions(id);
+  await deleteSubmittedRun(id);
+  await deleteRecord(SESSIONS, id);
+  return true;
+}
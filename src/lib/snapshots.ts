@@ -0,0 +1,144 @@
+// File: src/lib/snapshots.ts
+// Version history for configured master lists. Whenever a list is loaded with
+// content that differs from its latest version, the records are saved as a new
+// snapshot, so two versions can be compared and a past validation re-run
+// against exactly the records it first saw.
+
+import { createHash } from 'crypto';
+import { type Entry, extractSSID, normalize } from '@/lib/fields';
+import { type SourceListSummary } from '@/lib/sourceLists';
+import { appendLines, listRecords, newRecordId, readLines, readRecord, writeRecord } from '@/lib/store';
+
+// --- Type Definitions ---
+export type SourceSnapshot = {
+  id: string;
+  list: SourceListSummary;
+  createdAt: string;
+  recordCount: number;
+  /** SHA-256 of the records in load order; equal checksums mean identical content. */
+  checksum: string;
+  /** Where the records were loaded from, as reported by the source adapter. */
+  origin: string;
+};
+
+export type RecordChange = { ssid: string; fields: string[]; before: Entry; after: Entry; };
+
+export type SnapshotDiff = {
+  from: SourceSnapshot;
+  to: SourceSnapshot;
+  added: Entry[];
+  removed: Entry[];
+  changed: RecordChange[];
+  unchanged: number;
+  /** Records that cannot be compared because they have no SSID. */
+  withoutSsid: { from: number; to: number; };
+};
+
+// --- Configuration Constants ---
+const SNAPSHOTS = 'snapshots';
+const SNAPSHOT_ROWS = 'snapshot-rows';
+
+// Saves are chained per list, so two loads finishing together store one version, not two.
+const pendingSaves = new Map<string, Promise<SourceSnapshot>>();
+
+// --- Helper Functions ---
+export function checksumRecords(rows: Entry[]): string {
+  const hash = createHash('sha256');
+  for (const row of rows) hash.update(`${JSON.stringify(row)}\n`);
+  return hash.digest('hex');
+}
+
+/** Records keyed by normalised SSID; a repeated SSID keeps its first record, as matching does. */
+function keyBySsid(rows: Entry[]): { bySsid: Map<string, Entry>; withoutSsid: number; } {
+  const bySsid = new Map<string, Entry>();
+  let withoutSsid = 0;
+  for (const row of rows) {
+    const ssid = normalize(extractSSID(row));
+    if (!ssid) withoutSsid++;
+    else if (!bySsid.has(ssid)) bySsid.set(ssid, row);
+  }
+  return { bySsid, withoutSsid };
+}
+
+function changedFields(before: Entry, after: Entry): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key => String(before[key] ?? '').trim() !== String(after[key] ?? '').trim());
+}
+
+async function saveSnapshot(list: SourceListSummary, rows: Entry[], origin: string): Promise<SourceSnapshot> {
+  const checksum = checksumRecords(rows);
+  const [latest] = await listSnapshots(list.id);
+  if (latest && latest.checksum === checksum) return latest;
+
+  const snapshot: SourceSnapshot = {
+    id: newRecordId(),
+    list,
+    createdAt: new Date().toISOString(),
+    recordCount: rows.length,
+    checksum,
+    origin,
+  };
+  // Rows first: a snapshot document is only listed once its rows are complete.
+  await appendLines(SNAPSHOT_ROWS, snapshot.id, rows);
+  await writeRecord(SNAPSHOTS, snapshot.id, snapshot);
+  console.log(`SNAPSHOT: Saved version ${snapshot.id} of '${list.id}' (${rows.length} records).`);
+  return snapshot;
+}
+
+// --- Public API ---
+/** Snapshots newest first, optionally only those of one list. */
+export async function listSnapshots(listId?: string): Promise<SourceSnapshot[]> {
+  const snapshots = await listRecords<SourceSnapshot>(SNAPSHOTS);
+  return snapshots
+    .filter(snapshot => !listId || snapshot.list.id === listId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSnapshot(id: string): Promise<SourceSnapshot | null> {
+  return readRecord<SourceSnapshot>(SNAPSHOTS, id);
+}
+
+export async function readSnapshotRows(id: string): Promise<Entry[]> {
+  return readLines<Entry>(SNAPSHOT_ROWS, id);
+}
+
+/**
+ * Saves `rows` as a new version of `list`, unless they match the list's
+ * latest version, in which case that version is returned unchanged.
+ */
+export function recordSnapshot(list: SourceListSummary, rows: Entry[], origin: string): Promise<SourceSnapshot> {
+  const previous = pendingSaves.get(list.id);
+  const next = (previous ? previous.catch(() => undefined) : Promise.resolve()).then(() => saveSnapshot(list, rows, origin));
+  pendingSaves.set(list.id, next);
+  return next;
+}
+
+/** Records added, removed and changed between two snapshots, matched by SSID. Null if either is unknown. */
+export async function diffSnapshots(fromId: string, toId: string): Promise<SnapshotDiff | null> {
+  const [from, to] = await Promise.all([getSnapshot(fromId), getSnapshot(toId)]);
+  if (!from || !to) return null;
+
+  const before = keyBySsid(await readSnapshotRows(from.id));
+  const after = keyBySsid(await readSnapshotRows(to.id));
+
+  const added: Entry[] = [];
+  const removed: Entry[] = [];
+  const changed: RecordChange[] = [];
+  let unchanged = 0;
+
+  for (const [ssid, record] of after.bySsid) {
+    const previous = before.bySsid.get(ssid);
+    if (!previous) {
+      added.push(record);
+      continue;
+    }
+    const fields = changedFields(previous, record);
+    if (fields.length > 0) changed.push({ ssid: extractSSID(record).trim(), fields, before: previous, after: record });
+    else unchanged++;
+  }
+  for (const [ssid, record] of before.bySsid) {
+    if (!after.bySsid.has(ssid)) removed.push(record);
+  }
+
+  return { from, to, added, removed, changed, unchanged, withoutSsid: { from: before.withoutSsid, to: after.withoutSsid } };
+}
@@ -0,0 +1,260 @@
+// File: src/lib/sourceAdapters.ts
+// Loaders for master lists. Each adapter turns one kind of source (an API,
+// a spreadsheet file, a folder of spreadsheets, a database table, a JSON feed)
+// into plain records keyed by their column headers, so the rest of the app
+// never needs to know where a list came from.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { type Entry } from '@/lib/fields';
+import { type SheetSelection, parseSpreadsheet } from '@/lib/parseExcel';
+
+// --- Type Definitions ---
+// Spreadsheet sources read their first sheet unless `sheets` names the sheets
+// to merge, or is 'all'; merged rows record their sheet in a 'Sheet' column.
+export type SourceConfig =
+  /** The original endpoint answering `{ responseCode, data: { fileUrl } }`. */
+  | { type: 'api'; url: string; sheets?: SheetSelection; }
+  /** A spreadsheet (.xlsx, .xls, .csv) downloaded from a URL. */
+  | { type: 'url'; url: string; sheets?: SheetSelection; }
+  /** A spreadsheet on the server's disk. */
+  | { type: 'file'; path: string; sheets?: SheetSelection; }
+  /** Every spreadsheet in a folder, merged; each row records the file it came from. */
+  | { type: 'directory'; path: string; sheets?: SheetSelection; }
+  /** A table or query in a SQLite database file (needs the optional `better-sqlite3` package). */
+  | { type: 'sqlite'; path: string; table?: string; query?: string; }
+  /** A table or query in PostgreSQL (needs the optional `pg` package). */
+  | { type: 'postgres'; connectionString?: string; connectionStringEnv?: string; table?: string; query?: string; }
+  /** A JSON array (optionally nested under `recordsPath`, e.g. 'data.records') or NDJSON over HTTP. */
+  | { type: 'json'; url: string; format?: 'json' | 'ndjson'; recordsPath?: string; headers?: Record<string, string>; };
+
+export type SourceType = SourceConfig['type'];
+
+/**
+ * What a source said about the content it returned. Passed back on the next
+ * load, it lets an adapter skip downloading or parsing content that has not
+ * changed: an HTTP ETag or Last-Modified date, a file's size and modification
+ * time, and a SHA-256 checksum of the raw bytes.
+ */
+export type SourceValidators = { location?: string; etag?: string; lastModified?: string; checksum?: string; };
+
+/** Records loaded by an adapter, with a short human-readable note on where they came from. */
+export type LoadedRecords = { rows: Entry[]; origin: string; validators: SourceValidators; };
+
+/** The content matches the validators passed in; the caller's copy is still current. */
+export type NotModified = { notModified: true; validators: SourceValidators; };
+
+type SourceAdapter<C extends SourceConfig> = (config: C, previous?: SourceValidators) => Promise<LoadedRecords | NotModified>;
+
+// --- Configuration Constants ---
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+const SOURCE_FILE_COLUMN = 'Source File';
+const SAFE_TABLE_NAME = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// --- Helper Functions ---
+function checksumBytes(data: ArrayBuffer | string): string {
+  return createHash('sha256').update(typeof data === 'string' ? data : new Uint8Array(data)).digest('hex');
+}
+
+/** Validators from a previous load of the same location; those of another location say nothing. */
+function previousFor(location: string, previous?: SourceValidators): SourceValidators | undefined {
+  return previous?.location === location ? previous : undefined;
+}
+
+/** Fetches with If-None-Match / If-Modified-Since from the previous load; null when the server answers 304. */
+async function fetchConditional(url: string, previous?: SourceValidators, init: RequestInit = {}): Promise<Response | null> {
+  const headers = new Headers(init.headers);
+  if (previous?.etag) headers.set('If-None-Match', previous.etag);
+  if (previous?.lastModified) headers.set('If-Modified-Since', previous.lastModified);
+
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 304) return null;
+  if (!response.ok) throw new Error(`Failed to fetch data source content from ${url}: ${response.statusText}`);
+  return response;
+}
+
+function httpValidators(url: string, response: Response, checksum: string): SourceValidators {
+  return {
+    location: url,
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+    checksum,
+  };
+}
+
+function parseRows(data: ArrayBuffer, label: string, sheets?: SheetSelection): Entry[] {
+  const { rows, report } = parseSpreadsheet(data, sheets);
+  console.log(`INGESTION (${label}): ${report.headerReason} ${report.skippedRows} empty row(s) skipped.`);
+  return rows;
+}
+
+async function readFileBytes(filePath: string): Promise<ArrayBuffer> {
+  const buffer = await fs.readFile(filePath);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+/** Size and modification time of each file, as one string: equal strings mean untouched files. */
+async function fileSignature(filePaths: string[]): Promise<string> {
+  const stats = await Promise.all(filePaths.map(filePath => fs.stat(filePath)));
+  return stats.map((stat, i) => `${path.basename(filePaths[i])}:${stat.size}:${stat.mtimeMs}`).join('|');
+}
+
+/** Builds `SELECT * FROM <table>` or uses the configured query; table names are checked, not quoted. */
+function selectStatement(config: { table?: string; query?: string; }): string {
+  if (config.query) return config.query;
+  if (!config.table || !SAFE_TABLE_NAME.test(config.table)) throw new Error('A database source needs a valid "table" name or a "query".');
+  return `SELECT * FROM ${config.table}`;
+}
+
+/**
+ * Imports an optional dependency at runtime. The bundler is told to leave the
+ * import alone, so the app builds and runs without the package installed.
+ */
+async function importOptional<T>(name: string): Promise<T> {
+  try {
+    return await import(/* webpackIgnore: true */ name) as T;
+  } catch {
+    throw new Error(`This data source needs the '${name}' package. Install it with: npm install ${name}`);
+  }
+}
+
+function pluck(value: unknown, dottedPath?: string): unknown {
+  if (!dottedPath) return value;
+  return dottedPath.split('.').reduce<unknown>((current, key) => (
+    typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined
+  ), value);
+}
+
+// --- Adapters ---
+const loadFromApi: SourceAdapter<{ type: 'api'; url: string; sheets?: SheetSelection; }> = async ({ url, sheets }, previous) => {
+  console.log(`FETCHING API: ${url}`);
+  const apiResponse = await fetch(url);
+  if (!apiResponse.ok) {
+    throw new Error(`Failed to fetch default source info from API: ${apiResponse.statusText}`);
+  }
+
+  const apiData: { responseCode: number; responseMessage: string; data: { fileUrl: string; }; } = await apiResponse.json();
+  if (apiData.responseCode !== 200 || !apiData.data?.fileUrl) {
+    throw new Error(`API response error or missing file URL: ${apiData.responseMessage || 'Unknown API error'}`);
+  }
+  return loadFromUrl({ type: 'url', url: apiData.data.fileUrl, sheets }, previous);
+};
+
+const loadFromUrl: SourceAdapter<{ type: 'url'; url: string; sheets?: SheetSelection; }> = async ({ url, sheets }, previous) => {
+  const earlier = previousFor(url, previous);
+  console.log(`FETCHING CONTENT: ${url}`);
+  const response = await fetchConditional(url, earlier);
+  if (!response) return { notModified: true, validators: earlier as SourceValidators };
+
+  const data = await response.arrayBuffer();
+  const validators = httpValidators(url, response, checksumBytes(data));
+  // Servers without validators send the same bytes again, sometimes from a new signed URL; the checksum still spares the parse.
+  if (previous?.checksum === validators.checksum) return { notModified: true, validators };
+  return { rows: parseRows(data, url, sheets), origin: url, validators };
+};
+
+const loadFromFile: SourceAdapter<{ type: 'file'; path: string; sheets?: SheetSelection; }> = async ({ path: filePath, sheets }, previous) => {
+  const earlier = previousFor(filePath, previous);
+  const signature = await fileSignature([filePath]);
+  if (earlier?.lastModified === signature) return { notModified: true, validators: earlier };
+
+  const data = await readFileBytes(filePath);
+  const validators: SourceValidators = { location: filePath, lastModified: signature, checksum: checksumBytes(data) };
+  if (earlier?.checksum === validators.checksum) return { notModified: true, validators };
+  return { rows: parseRows(data, filePath, sheets), origin: filePath, validators };
+};
+
+const loadFromDirectory: SourceAdapter<{ type: 'directory'; path: string; sheets?: SheetSelection; }> = async ({ path: directory, sheets }, previous) => {
+  const files = (await fs.readdir(directory))
+    .filter(file => SPREADSHEET_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !file.startsWith('~$'))
+    .sort();
+  if (files.length === 0) throw new Error(`No spreadsheets found in ${directory}.`);
+
+  // Any file added, removed or touched changes the signature, and the folder is read again.
+  const earlier = previousFor(directory, previous);
+  const signature = await fileSignature(files.map(file => path.join(directory, file)));
+  if (earlier?.lastModified === signature) return { notModified: true, validators: earlier };
+
+  const rows: Entry[] = [];
+  const checksum = createHash('sha256');
+  for (const file of files) {
+    const data = await readFileBytes(path.join(directory, file));
+    checksum.update(file).update(new Uint8Array(data));
+    for (const row of parseRows(data, path.join(directory, file), sheets)) {
+      rows.push({ ...row, [SOURCE_FILE_COLUMN]: file });
+    }
+  }
+  return { rows, origin: `${files.length} file(s) in ${directory}`, validators: { location: directory, lastModified: signature, checksum: checksum.digest('hex') } };
+};
+
+type SqliteDatabase = { prepare: (sql: string) => { all: () => Entry[]; }; close: () => void; };
+type SqliteModule = { default: new (file: string, options: { readonly: boolean; fileMustExist: boolean; }) => SqliteDatabase; };
+
+const loadFromSqlite: SourceAdapter<{ type: 'sqlite'; path: string; table?: string; query?: string; }> = async config => {
+  const { default: Database } = await importOptional<SqliteModule>('better-sqlite3');
+  const db = new Database(config.path, { readonly: true, fileMustExist: true });
+  try {
+    // Databases offer no cheap change check, so tables are always read again.
+    return { rows: db.prepare(selectStatement(config)).all(), origin: `${config.path} (${config.table || 'query'})`, validators: {} };
+  } finally {
+    db.close();
+  }
+};
+
+type PgClient = { connect: () => Promise<void>; query: (sql: string) => Promise<{ rows: Entry[]; }>; end: () => Promise<void>; };
+type PgModule = { default: { Client: new (options: { connectionString: string; }) => PgClient; }; };
+
+const loadFromPostgres: SourceAdapter<{ type: 'postgres'; connectionString?: string; connectionStringEnv?: string; table?: string; query?: string; }> = async config => {
+  // Prefer naming an environment variable, so credentials stay out of the config file.
+  const connectionString = config.connectionStringEnv ? process.env[config.connectionStringEnv] : config.connectionString;
+  if (!connectionString) throw new Error('A postgres source needs "connectionString" or a set "connectionStringEnv" variable.');
+
+  const { default: pg } = await importOptional<PgModule>('pg');
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    const { rows } = await client.query(selectStatement(config));
+    return { rows, origin: `postgres (${config.table || 'query'})`, validators: {} };
+  } finally {
+    await client.end();
+  }
+};
+
+const loadFromJson: SourceAdapter<{ type: 'json'; url: string; format?: 'json' | 'ndjson'; recordsPath?: string; headers?: Record<string, string>; }> = async (config, previous) => {
+  const earlier = previousFor(config.url, previous);
+  console.log(`FETCHING JSON: ${config.url}`);
+  const response = await fetchConditional(config.url, earlier, { headers: config.headers });
+  if (!response) return { notModified: true, validators: earlier as SourceValidators };
+
+  const text = await response.text();
+  const validators = httpValidators(config.url, response, checksumBytes(text));
+  if (previous?.checksum === validators.checksum) return { notModified: true, validators };
+
+  const format = config.format ?? (config.url.endsWith('.ndjson') ? 'ndjson' : 'json');
+  const records = format === 'ndjson'
+    ? text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+    : pluck(JSON.parse(text), config.recordsPath);
+  if (!Array.isArray(records)) throw new Error(`Expected an array of records from ${config.url}${config.recordsPath ? ` at '${config.recordsPath}'` : ''}.`);
+
+  return { rows: records.filter((record): record is Entry => typeof record === 'object' && record !== null), origin: config.url, validators };
+};
+
+// --- Dispatch ---
+export const SOURCE_TYPES: SourceType[] = ['api', 'url', 'file', 'directory', 'sqlite', 'postgres', 'json'];
+
+/**
+ * Loads a source's records. Given the validators of an earlier load, returns
+ * `{ notModified }` instead when the source reports its content unchanged.
+ */
+export async function loadRecords(config: SourceConfig, previous?: SourceValidators): Promise<LoadedRecords | NotModified> {
+  switch (config.type) {
+    case 'api': return loadFromApi(config, previous);
+    case 'url': return loadFromUrl(config, previous);
+    case 'file': return loadFromFile(config, previous);
+    case 'directory': return loadFromDirectory(config, previous);
+    case 'sqlite': return loadFromSqlite(config);
+    case 'postgres': return loadFromPostgres(config);
+    case 'json': return loadFromJson(config, previous);
+  }
+}
@@ -0,0 +1,178 @@
+// File: src/lib/sourceHealth.ts
+// Integrity checks over a master list: repeated identifiers, identifiers
+// shared by different people, records missing a name or identifier,
+// identifiers in an unexpected format, and the same person filed under
+// different SSIDs. Matching silently keeps the first of any repeated
+// identifier, so these problems are otherwise invisible.
+
+import { type Entry, extractFullName, extractNIN, extractSSID, normalize } from '@/lib/fields';
+import { DEFAULT_MATCH_CONFIG, compareNames } from '@/lib/matcher';
+import { nameTokens, soundex } from '@/lib/nameIndex';
+
+// --- Type Definitions ---
+export const HEALTH_ISSUE_KINDS = [
+  'duplicate_ssid',
+  'duplicate_nin',
+  'nin_name_conflict',
+  'missing_name',
+  'missing_identifier',
+  'malformed_ssid',
+  'malformed_nin',
+  'near_duplicate',
+] as const;
+export type HealthIssueKind = typeof HEALTH_ISSUE_KINDS[number];
+
+/** A record named in a finding; `position` is its 1-based place in the list. */
+export type HealthRecord = { position: number; ssid: string; nin: string; name: string; };
+
+export type HealthFinding = {
+  kind: HealthIssueKind;
+  severity: 'error' | 'warning';
+  /** The identifier or name the records share, or the offending value. */
+  value: string;
+  detail: string;
+  records: HealthRecord[];
+};
+
+export type SourceHealthAnalysis = {
+  recordCount: number;
+  /** Findings per kind, including any left out of `findings` by the cap. */
+  counts: Record<HealthIssueKind, number>;
+  findings: HealthFinding[];
+  truncated: boolean;
+  /** The SSID shape most records follow (letters as 'A', digits as '9'), if any. */
+  ssidFormat: string | null;
+};
+
+// --- Configuration Constants ---
+const NIN_PATTERN = /^\d{11}$/;
+const MIN_SHAPE_SHARE = 0.5; // An SSID shape must cover this share of records to count as the format.
+const MAX_FINDINGS_PER_KIND = 5000;
+const MAX_NEAR_DUPLICATE_GROUP = 50; // Larger phonetic groups are common names, not duplicates; skipped.
+
+// --- Helper Functions ---
+function shapeOf(value: string): string {
+  return value.replace(/[A-Za-z]/g, 'A').replace(/\d/g, '9');
+}
+
+function groupBy(records: HealthRecord[], key: (record: HealthRecord) => string): Map<string, HealthRecord[]> {
+  const groups = new Map<string, HealthRecord[]>();
+  for (const record of records) {
+    const value = key(record);
+    if (!value) continue;
+    const group = groups.get(value);
+    if (group) group.push(record);
+    else groups.set(value, [record]);
+  }
+  return groups;
+}
+
+function namesAgree(records: HealthRecord[]): boolean {
+  const [first, ...rest] = records;
+  return rest.every(record => compareNames(first.name, record.name, DEFAULT_MATCH_CONFIG).score >= DEFAULT_MATCH_CONFIG.nameThreshold);
+}
+
+/** The SSID shape shared by at least half the records, or null when there is no clear format. */
+function dominantShape(records: HealthRecord[]): string | null {
+  const shapes = groupBy(records, record => record.ssid && shapeOf(record.ssid));
+  let best: [string, number] | null = null;
+  let total = 0;
+  for (const [shape, group] of shapes) {
+    total += group.length;
+    if (!best || group.length > best[1]) best = [shape, group.length];
+  }
+  return best && best[1] / total >= MIN_SHAPE_SHARE ? best[0] : null;
+}
+
+/** A phonetic key for a whole name, so spelling variants of the same name share a group. */
+function phoneticKey(name: string): string {
+  return nameTokens(name).map(soundex).sort().join(' ');
+}
+
+function findNearDuplicates(records: HealthRecord[]): HealthFinding[] {
+  const findings: HealthFinding[] = [];
+  for (const group of groupBy(records, record => record.ssid ? phoneticKey(record.name) : '').values()) {
+    if (group.length < 2 || group.length > MAX_NEAR_DUPLICATE_GROUP) continue;
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = [group[i], group[j]];
+        if (normalize(a.ssid) === normalize(b.ssid)) continue; // Reported as a duplicate SSID instead.
+        const { score } = compareNames(a.name, b.name, DEFAULT_MATCH_CONFIG);
+        if (score < DEFAULT_MATCH_CONFIG.nameThreshold) continue;
+        findings.push({
+          kind: 'near_duplicate',
+          severity: 'warning',
+          value: a.name,
+          detail: `'${a.name}' (${a.ssid}) and '${b.name}' (${b.ssid}) are ${score}% alike`,
+          records: [a, b],
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+// --- Analysis ---
+export function analyzeSourceHealth(entries: Entry[]): SourceHealthAnalysis {
+  const records: HealthRecord[] = entries.map((entry, index) => ({
+    position: index + 1,
+    ssid: extractSSID(entry),
+    nin: extractNIN(entry),
+    name: extractFullName(entry),
+  }));
+  const findings: HealthFinding[] = [];
+
+  for (const [ssid, group] of groupBy(records, record => normalize(record.ssid))) {
+    if (group.length < 2) continue;
+    const sameName = namesAgree(group);
+    findings.push({
+      kind: 'duplicate_ssid',
+      severity: 'error',
+      value: group[0].ssid || ssid,
+      detail: `${group.length} records share this SSID${sameName ? '' : ' under different names'}; only one is used for matching`,
+      records: group,
+    });
+  }
+
+  for (const [nin, group] of groupBy(records, record => normalize(record.nin))) {
+    if (group.length < 2) continue;
+    const sameName = namesAgree(group);
+    findings.push({
+      kind: sameName ? 'duplicate_nin' : 'nin_name_conflict',
+      severity: sameName ? 'warning' : 'error',
+      value: group[0].nin || nin,
+      detail: sameName
+        ? `${group.length} records share this NIN; only one is used for matching`
+        : `${group.length} records with different names share this NIN: ${group.map(record => `'${record.name || 'N/A'}'`).join(', ')}`,
+      records: group,
+    });
+  }
+
+  const ssidFormat = dominantShape(records);
+  for (const record of records) {
+    if (!record.name) {
+      findings.push({ kind: 'missing_name', severity: 'warning', value: record.ssid || record.nin, detail: 'No name; the record can only be matched by identifier', records: [record] });
+    }
+    if (!record.ssid) {
+      findings.push({
+        kind: 'missing_identifier',
+        severity: record.nin ? 'warning' : 'error',
+        value: record.name,
+        detail: record.nin ? 'No SSID; the record can only be matched by NIN' : 'No SSID or NIN; the record can only be found by name',
+        records: [record],
+      });
+    }
+    if (record.ssid && ssidFormat && shapeOf(record.ssid) !== ssidFormat) {
+      findings.push({ kind: 'malformed_ssid', severity: 'warning', value: record.ssid, detail: `Expected the format ${ssidFormat}, found ${shapeOf(record.ssid)}`, records: [record] });
+    }
+    if (record.nin && !NIN_PATTERN.test(record.nin)) {
+      findings.push({ kind: 'malformed_nin', severity: 'warning', value: record.nin, detail: 'A NIN has exactly 11 digits', records: [record] });
+    }
+  }
+
+  findings.push(...findNearDuplicates(records));
+
+  const counts = Object.fromEntries(HEALTH_ISSUE_KINDS.map(kind => [kind, 0])) as Record<HealthIssueKind, number>;
+  const kept = findings.filter(finding => ++counts[finding.kind] <= MAX_FINDINGS_PER_KIND);
+  return { recordCount: records.length, counts, findings: kept, truncated: kept.length < findings.length, ssidFormat };
+}
@@ -0,0 +1,113 @@
+// File: src/lib/sourceLists.ts
+// The named master lists users can validate against, read from
+// optimatch.sources.json (or the file named by OPTIMATCH_SOURCES_FILE):
+//
+//   {
+//     "defaultList": "pensioners-2025",
+//     "lists": [
+//       { "id": "pensioners-2025", "name": "Pensioners 2025", "source": { "type": "file", "path": "data/pensioners-2025.xlsx" } },
+//       { "id": "staff-payroll", "name": "Staff Payroll", "source": { "type": "postgres", "connectionStringEnv": "PAYROLL_DB_URL", "table": "staff" } }
+//     ]
+//   }
+//
+// Relative paths are resolved from the config file's folder. Without a config
+// file, the only list is the default API named by NEXT_PUBLIC_DEFAULT_SOURCE_URL.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { type SourceConfig, type SourceType, SOURCE_TYPES } from '@/lib/sourceAdapters';
+import { isSheetSelection } from '@/lib/parseExcel';
+
+// --- Type Definitions ---
+export type SourceList = { id: string; name: string; description?: string; source: SourceConfig; };
+
+/** What the pages are shown about a list; connection details stay on the server. */
+export type SourceListSummary = { id: string; name: string; description?: string; type: SourceType; };
+
+// --- Configuration Constants ---
+const CONFIG_FILE = process.env.OPTIMATCH_SOURCES_FILE || path.join(process.cwd(), 'optimatch.sources.json');
+const DEFAULT_SOURCE_API_URL = process.env.NEXT_PUBLIC_DEFAULT_SOURCE_URL;
+export const DEFAULT_LIST_ID = 'default';
+
+// --- Helper Functions ---
+function validateSourceList(input: unknown): string | null {
+  if (typeof input !== 'object' || input === null) return 'entry must be an object';
+  const list = input as Partial<SourceList>;
+  if (typeof list.id !== 'string' || !list.id) return 'missing "id"';
+  if (typeof list.name !== 'string' || !list.name) return `list '${list.id}' is missing "name"`;
+  if (typeof list.source !== 'object' || list.source === null) return `list '${list.id}' is missing "source"`;
+  if (!SOURCE_TYPES.includes(list.source.type)) return `list '${list.id}' has unknown source type '${String(list.source.type)}'`;
+  const { sheets } = list.source as { sheets?: unknown; };
+  if (sheets !== undefined && !isSheetSelection(sheets)) return `list '${list.id}' has "sheets" that is neither "all" nor an array of sheet names`;
+  return null;
+}
+
+/** Resolves the paths of file-based sources against the config file's folder. */
+function resolvePaths(source: SourceConfig): SourceConfig {
+  if (source.type === 'file' || source.type === 'directory' || source.type === 'sqlite') {
+    return { ...source, path: path.resolve(path.dirname(CONFIG_FILE), source.path) };
+  }
+  return source;
+}
+
+/** Parses the config file, failing with a message that names the file rather than a bare JSON error. */
+function parseConfig(raw: string): { defaultList?: unknown; lists: unknown[]; } {
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`The source list config at ${CONFIG_FILE} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`The source list config at ${CONFIG_FILE} must be a JSON object.`);
+  }
+  const { defaultList, lists } = config as { defaultList?: unknown; lists?: unknown; };
+  if (lists === undefined) return { defaultList, lists: [] };
+  if (!Array.isArray(lists)) throw new Error(`The source list config at ${CONFIG_FILE} must have "lists" as an array.`);
+  return { defaultList, lists };
+}
+
+function fallbackLists(): { lists: SourceList[]; defaultId: string | null; } {
+  if (!DEFAULT_SOURCE_API_URL) return { lists: [], defaultId: null };
+  return {
+    lists: [{ id: DEFAULT_LIST_ID, name: 'Default Master List', source: { type: 'api', url: DEFAULT_SOURCE_API_URL } }],
+    defaultId: DEFAULT_LIST_ID,
+  };
+}
+
+// --- Public API ---
+/** All configured lists and the id of the one used when a request names none. */
+export async function getSourceLists(): Promise<{ lists: SourceList[]; defaultId: string | null; }> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(CONFIG_FILE, 'utf8');
+  } catch {
+    return fallbackLists();
+  }
+
+  const config = parseConfig(raw);
+  const lists: SourceList[] = [];
+  for (const entry of config.lists) {
+    const problem = validateSourceList(entry);
+    if (problem) {
+      console.error(`Ignoring source list in ${CONFIG_FILE}: ${problem}.`);
+      continue;
+    }
+    const list = entry as SourceList;
+    lists.push({ ...list, source: resolvePaths(list.source) });
+  }
+
+  const defaultId = lists.find(list => list.id === config.defaultList)?.id ?? lists[0]?.id ?? null;
+  return { lists, defaultId };
+}
+
+/** The list with the given id, or the default list when no id is given. Null if there is no such list. */
+export async function findSourceList(id?: string | null): Promise<SourceList | null> {
+  const { lists, defaultId } = await getSourceLists();
+  const wanted = id || defaultId;
+  return lists.find(list => list.id === wanted) ?? null;
+}
+
+export function summarizeSourceList(list: SourceList): SourceListSummary {
+  return { id: list.id, name: list.name, description: list.description, type: list.source.type };
+}
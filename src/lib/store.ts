@@ -0,0 +1,139 @@
+// File: src/lib/store.ts
+// A small file-backed store for state that must outlive a request: one JSON
+// document per record, grouped into collections (sub-directories) under the
+// data directory. Writes go through a temporary file and a rename, so a crash
+// never leaves a half-written document behind.
+
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { randomUUID } from 'crypto';
+
+// --- Configuration Constants ---
+const DATA_DIR = process.env.OPTIMATCH_DATA_DIR || path.join(process.cwd(), '.optimatch-data');
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+// Lines serialised per write, so a log of hundreds of thousands of rows is never one string.
+const LINES_PER_CHUNK = 1000;
+
+// --- Helper Functions ---
+function collectionDir(collection: string): string {
+  return path.join(DATA_DIR, collection);
+}
+
+export function isRecordId(id: string): boolean {
+  return SAFE_ID.test(id);
+}
+
+/** Resolves a record file, refusing ids that could escape the collection directory. */
+export function recordPath(collection: string, id: string, extension = '.json'): string {
+  if (!SAFE_ID.test(id)) throw new Error(`Invalid record id '${id}'.`);
+  return path.join(collectionDir(collection), `${id}${extension}`);
+}
+
+function isMissing(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+export function newRecordId(): string {
+  return randomUUID();
+}
+
+// --- Documents ---
+export async function readRecord<T>(collection: string, id: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(recordPath(collection, id), 'utf8')) as T;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+export async function writeRecord<T>(collection: string, id: string, value: T): Promise<void> {
+  const target = recordPath(collection, id);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value), 'utf8');
+  await fs.rename(temporary, target);
+}
+
+export async function deleteRecord(collection: string, id: string): Promise<void> {
+  await fs.rm(recordPath(collection, id), { force: true });
+}
+
+/** Every record in a collection, in no particular order. Unreadable files are skipped. */
+export async function listRecords<T>(collection: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(collectionDir(collection));
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    try {
+      records.push(JSON.parse(await fs.readFile(path.join(collectionDir(collection), file), 'utf8')) as T);
+    } catch (error) {
+      console.error(`Skipping unreadable record ${collection}/${file}:`, error);
+    }
+  }
+  return records;
+}
+
+// --- Append-only Logs ---
+// For data written in pieces, such as the rows of a long validation job.
+// Logs are streamed in both directions, as they can hold a whole master list.
+
+function* serializeLines(values: unknown[]): Generator<string> {
+  for (let start = 0; start < values.length; start += LINES_PER_CHUNK) {
+    yield values.slice(start, start + LINES_PER_CHUNK).map(value => `${JSON.stringify(value)}\n`).join('');
+  }
+}
+
+export async function appendLines(collection: string, id: string, values: unknown[]): Promise<void> {
+  if (values.length === 0) return;
+  const target = recordPath(collection, id, '.ndjson');
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await pipeline(Readable.from(serializeLines(values)), createWriteStream(target, { flags: 'a', encoding: 'utf8' }));
+}
+
+/** Yields the values of an append-only log in order, one line at a time; nothing for a missing log. */
+export async function* iterateLines<T>(collection: string, id: string): AsyncGenerator<T> {
+  const input = createReadStream(recordPath(collection, id, '.ndjson'), { encoding: 'utf8' });
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (line) yield JSON.parse(line) as T;
+    }
+  } catch (error) {
+    if (!isMissing(error)) throw error;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/** Reads an append-only log, stopping after its first `limit` lines when given. */
+export async function readLines<T>(collection: string, id: string, limit?: number): Promise<T[]> {
+  const values: T[] = [];
+  if (limit !== undefined && limit <= 0) return values;
+  for await (const value of iterateLines<T>(collection, id)) {
+    values.push(value);
+    if (limit !== undefined && values.length >= limit) break;
+  }
+  return values;
+}
+
+export async function truncateLines(collection: string, id: string, keep: number): Promise<void> {
+  const kept = await readLines(collection, id, keep);
+  const target = recordPath(collection, id, '.ndjson');
+  await fs.rm(target, { force: true });
+  await appendLines(collection, id, kept);
+}
+
+export async function deleteLines(collection: string, id: string): Promise<void> {
+  await fs.rm(recordPath(collection, id, '.ndjson'), { force: true });
+}
@@ -0,0 +1,133 @@
+// File: src/lib/submissionHistory.ts
+// Who has been submitted before: every validation run records the identifiers
+// of its rows, so a new submission can be checked against the runs of the
+// last few days. An earlier row counts once it validated as Valid or a
+// reviewer approved it, and stops counting when a reviewer rejects it.
+
+import { type ColumnMapping, type Entry, extractFullName, extractNIN, extractRole, extractSSID, normalize } from '@/lib/fields';
+import { fieldReadings } from '@/lib/fieldComparison';
+import { nameTokens } from '@/lib/nameIndex';
+import { getReviewDecisions } from '@/lib/reviewLog';
+import { appendLines, deleteLines, deleteRecord, iterateLines, listRecords, writeRecord } from '@/lib/store';
+
+// --- Type Definitions ---
+/** The earlier row a submitted row repeats, and the run it was submitted in. */
+export type EarlierSubmission = {
+  field: 'SSID' | 'NIN' | 'Name + DOB';
+  runId: string;
+  fileName: string;
+  submittedAt: string;
+  /** 1-based position of the row in the earlier run's results. */
+  row: number;
+};
+
+/** The counted rows of the runs inside the window, keyed by SSID, NIN and name plus date of birth. */
+export type SubmissionHistory = {
+  windowDays: number;
+  /** Earlier runs checked against. */
+  runs: number;
+  bySsid: Map<string, EarlierSubmission>;
+  byNin: Map<string, EarlierSubmission>;
+  byNameDob: Map<string, EarlierSubmission>;
+};
+
+/** A recorded run; its id is the run id. */
+export type SubmittedRun = { id: string; fileName: string; submittedAt: string; toValidateUrl: string; };
+
+type SubmittedRow = { row: number; ssid: string; nin: string; name: string; dob: string; status: string; };
+
+// --- Configuration Constants ---
+export const MAX_HISTORY_WINDOW_DAYS = 3650;
+export const EARLIER_SUBMISSION_COLUMN = 'Earlier Submission';
+export const EARLIER_SESSION_COLUMN = 'Earlier Session';
+const SUBMISSIONS = 'submissions';
+const SUBMITTED_ROWS = 'submitted-rows';
+const MS_PER_DAY = 86400000;
+
+// --- Helper Functions ---
+/** One key per reading of the date of birth, so an ambiguous 03/04 date still finds its match. */
+function nameDobKeys(name: string, dob: string): string[] {
+  const tokens = nameTokens(name).sort().join(' ');
+  if (!tokens) return [];
+  return fieldReadings('dob', dob).map(reading => `${tokens}|${reading}`);
+}
+
+function remember(lookup: Map<string, EarlierSubmission>, key: string, submission: EarlierSubmission): void {
+  if (key && !lookup.has(key)) lookup.set(key, submission);
+}
+
+// --- Recording ---
+export async function recordSubmittedRun(run: SubmittedRun): Promise<void> {
+  await writeRecord(SUBMISSIONS, run.id, run);
+}
+
+/** Records the identifiers of a batch of result rows; `firstRow` is the number of rows before the batch. */
+export async function recordSubmittedRows(runId: string, rows: Entry[], firstRow: number, mapping?: ColumnMapping): Promise<void> {
+  const submitted: SubmittedRow[] = rows.map((row, index) => ({
+    row: firstRow + index + 1,
+    ssid: extractSSID(row, mapping),
+    nin: extractNIN(row, mapping),
+    name: extractFullName(row, mapping),
+    dob: extractRole(row, 'dob', mapping),
+    status: String(row['Match Status'] ?? ''),
+  }));
+  await appendLines(SUBMITTED_ROWS, runId, submitted.filter(row => row.ssid || row.nin || row.name));
+}
+
+export async function deleteSubmittedRun(runId: string): Promise<void> {
+  await deleteLines(SUBMITTED_ROWS, runId);
+  await deleteRecord(SUBMISSIONS, runId);
+}
+
+// --- Checking ---
+/**
+ * The counted rows of every run recorded in the last `windowDays` days,
+ * earliest first. The current run, and earlier runs of the very same
+ * uploaded file (a re-run rather than a new submission), are left out.
+ * Each run's rows are streamed, so only their identifier keys stay in memory.
+ */
+export async function loadSubmissionHistory(windowDays: number, current: { runId: string; toValidateUrl: string; }): Promise<SubmissionHistory> {
+  const since = Date.now() - windowDays * MS_PER_DAY;
+  const runs = (await listRecords<SubmittedRun>(SUBMISSIONS))
+    .filter(run => run.id !== current.runId && run.toValidateUrl !== current.toValidateUrl && Date.parse(run.submittedAt) >= since)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+  const history: SubmissionHistory = { windowDays, runs: runs.length, bySsid: new Map(), byNin: new Map(), byNameDob: new Map() };
+
+  for (const run of runs) {
+    const decisions = new Map((await getReviewDecisions(run.id)).map(decision => [decision.row, decision]));
+
+    // A resumed job may have recorded a batch twice; both copies name the same row, and keys keep the first.
+    for await (const row of iterateLines<SubmittedRow>(SUBMITTED_ROWS, run.id)) {
+      const decision = decisions.get(row.row);
+      if (decision ? decision.action === 'reject' : row.status !== 'Valid') continue;
+      // A corrected row was accepted under the master list's identifiers.
+      const correction = decision?.correction;
+      const [ssid, nin, name] = [correction?.ssid || row.ssid, correction?.nin || row.nin, correction?.name || row.name];
+      const earlier = { runId: run.id, fileName: run.fileName, submittedAt: run.submittedAt, row: row.row };
+
+      remember(history.bySsid, normalize(ssid), { ...earlier, field: 'SSID' });
+      remember(history.byNin, normalize(nin), { ...earlier, field: 'NIN' });
+      for (const key of nameDobKeys(name, row.dob)) remember(history.byNameDob, key, { ...earlier, field: 'Name + DOB' });
+    }
+  }
+  return history;
+}
+
+/** The earliest counted row with the entry's SSID, else its NIN, else its name and date of birth. */
+export function findEarlierSubmission(history: SubmissionHistory, entry: Entry, mapping?: ColumnMapping): EarlierSubmission | null {
+  const ssid = normalize(extractSSID(entry, mapping));
+  const bySsid = ssid ? history.bySsid.get(ssid) : undefined;
+  if (bySsid) return bySsid;
+  const nin = normalize(extractNIN(entry, mapping));
+  const byNin = nin ? history.byNin.get(nin) : undefined;
+  if (byNin) return byNin;
+  for (const key of nameDobKeys(extractFullName(entry, mapping), extractRole(entry, 'dob', mapping))) {
+    const byNameDob = history.byNameDob.get(key);
+    if (byNameDob) return byNameDob;
+  }
+  return null;
+}
+
+export function describeEarlierSubmission(earlier: EarlierSubmission): string {
+  return `Already submitted in an earlier batch: same ${earlier.field} as row ${earlier.row} of ${earlier.fileName} (${earlier.submittedAt.slice(0, 10)}).`;
+}
@@ -0,0 +1,90 @@
+// File: src/lib/typoRecovery.ts
+
+// --- Type Definitions ---
+export type NearIdentifier<T> = { id: string; distance: number; value: T; };
+
+// --- Configuration Constants ---
+const DIGITS = '0123456789';
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+// --- Helper Functions ---
+// Typed identifiers are mistyped within a character class (a digit for a digit),
+// so substitutions and insertions stay in the class of the neighbouring character.
+function alphabetFor(char: string | undefined): string {
+  return char !== undefined && LETTERS.includes(char) ? LETTERS : DIGITS;
+}
+
+/**
+ * Calls `visit` with every string one edit away from a normalised identifier:
+ * a substitution, deletion, insertion, or a swap of two adjacent characters.
+ * Edits producing a length not in `lengths` are skipped, since no identifier
+ * of that length exists to find. The same variant may be visited twice.
+ */
+function forEachVariant(id: string, lengths: Set<number>, visit: (variant: string) => void): void {
+  const sameLength = lengths.has(id.length);
+  const shorter = lengths.has(id.length - 1);
+  const longer = lengths.has(id.length + 1);
+
+  for (let i = 0; i < id.length; i++) {
+    const head = id.slice(0, i);
+    const tail = id.slice(i + 1);
+    if (shorter) visit(head + tail);
+    if (!sameLength) continue;
+    for (const c of alphabetFor(id[i])) {
+      if (c !== id[i]) visit(head + c + tail);
+    }
+    if (i < id.length - 1 && id[i] !== id[i + 1]) {
+      visit(head + id[i + 1] + id[i] + id.slice(i + 2));
+    }
+  }
+  if (!longer) return;
+  for (let i = 0; i <= id.length; i++) {
+    for (const c of alphabetFor(id[i] ?? id[i - 1])) {
+      visit(id.slice(0, i) + c + id.slice(i));
+    }
+  }
+}
+
+// Identifier lengths present in each lookup map, computed once per map.
+const lengthCache = new WeakMap<Map<string, unknown>, Set<number>>();
+
+function keyLengths(lookup: Map<string, unknown>): Set<number> {
+  let lengths = lengthCache.get(lookup);
+  if (!lengths) {
+    lengths = new Set(Array.from(lookup.keys(), key => key.length));
+    lengthCache.set(lookup, lengths);
+  }
+  return lengths;
+}
+
+/**
+ * Finds identifiers in a lookup map within `maxDistance` edits (1 or 2) of a
+ * normalised identifier that has no exact entry. Probing the existing map with
+ * generated variants avoids keeping a second index over the whole source.
+ * Distance 2 probes tens of thousands of variants, so it is noticeably slower.
+ */
+export function findNearIdentifiers<T>(id: string, lookup: Map<string, T>, maxDistance: number): NearIdentifier<T>[] {
+  const found = new Map<string, NearIdentifier<T>>();
+  const lengths = keyLengths(lookup);
+  // Level-one variants must be kept whatever their length, as stepping stones to level two.
+  const allLengths = maxDistance >= 2 ? new Set([id.length - 1, id.length, id.length + 1]) : lengths;
+  const firstEdits = new Set<string>();
+  forEachVariant(id, allLengths, variant => { if (variant !== id) firstEdits.add(variant); });
+
+  for (const variant of firstEdits) {
+    const value = lookup.get(variant);
+    if (value !== undefined) found.set(variant, { id: variant, distance: 1, value });
+  }
+
+  if (maxDistance >= 2) {
+    for (const variant of firstEdits) {
+      forEachVariant(variant, lengths, second => {
+        if (second === id || found.has(second)) return;
+        const value = lookup.get(second);
+        if (value !== undefined) found.set(second, { id: second, distance: 2, value });
+      });
+    }
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,359 @@
+// File: src/lib/validation.ts
+// The validation run behind /api/validate: parse the uploaded file, match each
+// row against the chosen master list, and summarise. Rows are processed in batches
+// so callers can stream progress and stop early.
+
+import { getDataSource } from '@/lib/dataSource';
+import { type DuplicateCluster, findDuplicateClusters } from '@/lib/duplicateClusters';
+import { type Entry, type ColumnMapping, EXTRA_FIELD_LABELS, EXTRA_FIELD_ROLES, normalize, validateColumnMapping } from '@/lib/fields';
+import { type FieldCheck } from '@/lib/fieldComparison';
+import { type MatchConfig, type SourceIndex, matchEntry, toMatchSubject } from '@/lib/matcher';
+import { type MatchingProfile, resolveMatchingProfile, validateMatchingProfile } from '@/lib/matchingProfiles';
+import { type IngestionReport, type ParsedSpreadsheet, type SheetSelection, isSheetNotFoundError, isSheetSelection, parseSpreadsheetFromUrl } from '@/lib/parseExcel';
+import { type SourceListSummary, findSourceList } from '@/lib/sourceLists';
+import { type SourceSnapshot, getSnapshot } from '@/lib/snapshots';
+import { newRecordId } from '@/lib/store';
+import { type SubmissionHistory, EARLIER_SESSION_COLUMN, EARLIER_SUBMISSION_COLUMN, MAX_HISTORY_WINDOW_DAYS, describeEarlierSubmission, findEarlierSubmission, loadSubmissionHistory } from '@/lib/submissionHistory';
+
+// --- Type Definitions ---
+export type ProcessedEntry = Entry & {
+  'Match Status': string;
+  'Match Reason': string;
+  'Matched Name': string;
+  'Correct SSID': string;
+  'Correct NIN': string;
+  'Suggested ID': string;
+  'Name Candidates': string;
+  'Duplicate Cluster': string;
+  'Duplicate Confidence': number | '';
+  'Duplicate Basis': string;
+};
+
+/** The request body fields a validation run is configured from. */
+export type ValidationRequest = { toValidateUrl?: unknown; sourceUrl?: unknown; columnMapping?: unknown; profile?: unknown; sourceList?: unknown; snapshot?: unknown; sheets?: unknown; historyWindowDays?: unknown; };
+
+export type StatusCounts = { valid: number; partialMatch: number; probableTypo: number; needsIdentifier: number; invalid: number; };
+
+export type ValidationProgress = { processed: number; total: number; counts: StatusCounts; duplicates: number; earlierSubmissions: number; };
+
+export type ValidationSummary = StatusCounts & {
+  /** Identifies the run, e.g. for reviewer decisions on its rows; a background job's id for its run. */
+  runId: string;
+  total: number;
+  duplicatesInValidationFile: number;
+  /** Groups of rows in the file suspected to be the same person, and the rows in them. */
+  duplicateClusters: number;
+  rowsInDuplicateClusters: number;
+  /** Rows already submitted in an earlier run inside the history window. */
+  earlierSubmissions: number;
+  /** The earlier runs the file was checked against, or null when the check was off. */
+  submissionHistory: { windowDays: number; runs: number; } | null;
+  sourceFileWarnings: string[];
+  ingestion: IngestionReport;
+  columnMapping: ColumnMapping;
+  comparedFields: MatchConfig['extraFields'];
+  matchingProfile: MatchingProfile;
+  /** The master list the file was validated against. */
+  sourceList: SourceListSummary | null;
+  /** The version of the master list used; pass its id as `snapshot` to reproduce the run. */
+  snapshot: SourceSnapshot | null;
+  /** The uploaded source file the run used instead of a master list, if any. */
+  sourceUrl: string | null;
+  /** 'Custom Source' for an uploaded source, else the master list's name, as in lookup responses. */
+  sourceUsed: string;
+  sourceRecordCount: number;
+};
+
+export type ValidationOutcome = { headers: string[]; results: ProcessedEntry[]; summary: ValidationSummary; };
+
+/** Everything a run needs, loaded and checked up front so a bad request fails before any row is matched. */
+export type PreparedValidation = {
+  runId: string;
+  entries: Entry[];
+  headers: string[];
+  ingestion: IngestionReport;
+  mapping?: ColumnMapping;
+  columnMapping: ColumnMapping;
+  profile: MatchingProfile;
+  matchConfig: MatchConfig;
+  sourceIndex: SourceIndex;
+  sourceList: SourceListSummary | null;
+  snapshot: SourceSnapshot | null;
+  sourceUrl: string | null;
+  sourceRecordCount: number;
+  history: SubmissionHistory | null;
+  duplicateClusters: DuplicateCluster[];
+};
+
+export type RunOptions = {
+  signal?: AbortSignal;
+  /** Called after each batch with the rows it produced and the running totals; awaited before the next batch. */
+  onBatch?: (rows: ProcessedEntry[], progress: ValidationProgress) => void | Promise<void>;
+  /** Continues an interrupted run: rows before `processed` are skipped and the totals carried over. */
+  resumeFrom?: ValidationProgress;
+};
+
+// --- Configuration Constants ---
+export const MAX_ENTRIES_LIMIT = 20000; // Max records in validation file.
+export const MAX_ASYNC_ENTRIES_LIMIT = 200000; // Max records in validation file for a background job.
+const MAX_SOURCE_LIMIT = 500000; // Max records in default source file.
+const BATCH_SIZE = 500; // Rows matched between progress reports and abort checks.
+
+const RESULT_COLUMNS = ['Match Status', 'Match Reason', 'Matched Name', 'Correct SSID', 'Correct NIN', 'Suggested ID', 'Name Candidates', 'Duplicate Cluster', 'Duplicate Confidence', 'Duplicate Basis'];
+
+// --- Helper Functions ---
+
+/**
+ * Downloads and parses the user's validation file, replacing low-level
+ * fetch/parse errors with a message that is safe to show to the user.
+ * Returns `{ error }` when a requested sheet is not in the workbook.
+ */
+async function parseFileFromUrl(url: string, sheets?: SheetSelection): Promise<ParsedSpreadsheet | { error: string; }> {
+    try {
+        return await parseSpreadsheetFromUrl(url, sheets);
+    } catch (error) {
+        if (isSheetNotFoundError(error)) return { error: error.message };
+        console.error(`Error parsing file from URL ${url}:`, error);
+        throw new Error('Could not read or parse the file from storage.');
+    }
+}
+
+/** A result row without the verdict columns a run added, i.e. the row as it was submitted. */
+export function stripResultColumns(row: Entry): Entry {
+  const added = new Set([...RESULT_COLUMNS, EARLIER_SUBMISSION_COLUMN, EARLIER_SESSION_COLUMN, ...EXTRA_FIELD_ROLES.map(fieldCheckColumn)]);
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !added.has(key)));
+}
+
+function fieldCheckColumn(field: FieldCheck['field']): string {
+  return `${EXTRA_FIELD_LABELS[field]} Check`;
+}
+
+function describeFieldCheck(check: FieldCheck): string {
+  return check.status === 'Mismatch' ? `Mismatch (source: ${check.sourceValue})` : check.status;
+}
+
+export function emptyCounts(): StatusCounts {
+  return { valid: 0, partialMatch: 0, probableTypo: 0, needsIdentifier: 0, invalid: 0 };
+}
+
+function countStatus(counts: StatusCounts, status: string): void {
+  switch (status) {
+    case 'Valid': counts.valid++; break;
+    case 'Partial Match': counts.partialMatch++; break;
+    case 'Probable Typo': counts.probableTypo++; break;
+    case 'Needs Identifier': counts.needsIdentifier++; break;
+    case 'Invalid': counts.invalid++; break;
+  }
+}
+
+/** Lets queued I/O (stream writes, abort events) run between batches. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// --- Preparation ---
+/** Checks the parts of a request that can be judged without downloading anything. */
+export function checkValidationRequest(request: ValidationRequest): string | null {
+  if (!request.toValidateUrl || typeof request.toValidateUrl !== 'string') return 'Request body must include toValidateUrl string.';
+  if (request.sourceUrl !== undefined && request.sourceUrl !== null && typeof request.sourceUrl !== 'string') return 'sourceUrl must be the uploaded source file URL string.';
+  if (request.sourceList !== undefined && request.sourceList !== null && typeof request.sourceList !== 'string') return 'sourceList must be a master list id string.';
+  if (request.snapshot !== undefined && request.snapshot !== null && typeof request.snapshot !== 'string') return 'snapshot must be a master list version id string.';
+  if (request.sheets !== undefined && request.sheets !== null && !isSheetSelection(request.sheets)) return 'sheets must be "all" or an array of sheet names.';
+  if (request.historyWindowDays !== undefined && request.historyWindowDays !== null) {
+    const days = request.historyWindowDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 0 || days > MAX_HISTORY_WINDOW_DAYS) return `historyWindowDays must be a whole number of days from 0 to ${MAX_HISTORY_WINDOW_DAYS}.`;
+  }
+  if (request.profile !== undefined && request.profile !== null) return validateMatchingProfile(request.profile);
+  return null;
+}
+
+/**
+ * Checks the request, loads the source and the validation file, and builds
+ * the matching configuration. Returns `{ error }` for a request the caller
+ * should reject as bad input; throws on failures to load either file.
+ * When the rows are given as `file` (sent to the public API rather than
+ * uploaded), nothing is downloaded and `toValidateUrl` only identifies them.
+ */
+export async function prepareValidation(request: ValidationRequest, maxEntries = MAX_ENTRIES_LIMIT, runId = newRecordId(), file?: ParsedSpreadsheet): Promise<PreparedValidation | { error: string; }> {
+  const requestError = checkValidationRequest(request);
+  if (requestError) return { error: requestError };
+  const { columnMapping, profile: profileInput } = request;
+  const toValidateUrl = request.toValidateUrl as string;
+  const sourceUrl = (request.sourceUrl || null) as string | null;
+  const sourceListId = (request.sourceList ?? null) as string | null;
+  const snapshotId = (request.snapshot ?? null) as string | null;
+  const historyWindowDays = (request.historyWindowDays ?? 0) as number;
+
+  // An unknown list or version is the caller's mistake, not a failure to load it.
+  // A version belongs to one list, so it takes precedence over `sourceList`.
+  // An uploaded source replaces the list, and cannot be combined with a version.
+  if (sourceUrl) {
+    if (snapshotId) return { error: 'snapshot cannot be combined with an uploaded sourceUrl.' };
+  } else if (snapshotId) {
+    if (!(await getSnapshot(snapshotId))) return { error: `Unknown master list version '${snapshotId}'.` };
+  } else if (sourceListId && !(await findSourceList(sourceListId))) {
+    return { error: `Unknown master list '${sourceListId}'.` };
+  }
+
+  // Fetch the uploaded source, or the chosen master list (or the default one), leveraging caching.
+  const loadedSource = await getDataSource(sourceUrl, sourceListId, snapshotId);
+
+  // Parse the user's validation file: the chosen sheets, or the first one.
+  const parsed = file ?? await parseFileFromUrl(toValidateUrl, (request.sheets ?? undefined) as SheetSelection | undefined);
+  if ('error' in parsed) return { error: parsed.error };
+  const { rows: entries, headers, report: ingestion } = parsed;
+
+  // A user-confirmed mapping replaces the alias guessing for the validation file.
+  if (columnMapping !== undefined && columnMapping !== null) {
+    const mappingError = validateColumnMapping(columnMapping, headers);
+    if (mappingError) return { error: mappingError };
+  }
+  const mapping = (columnMapping ?? undefined) as ColumnMapping | undefined;
+
+  // Enforce file size limits.
+  if (loadedSource.records.length > MAX_SOURCE_LIMIT) throw new Error(`Source file exceeds limit of ${MAX_SOURCE_LIMIT} records.`);
+  if (entries.length > maxEntries) {
+    const hint = maxEntries < MAX_ASYNC_ENTRIES_LIMIT ? ` Run it as a background job for files up to ${MAX_ASYNC_ENTRIES_LIMIT} records.` : '';
+    throw new Error(`Validation file exceeds limit of ${maxEntries} records.${hint}`);
+  }
+
+  // Extra fields are only compared when the validation file has a column for them.
+  const profile = resolveMatchingProfile(profileInput as Partial<MatchingProfile> | null | undefined);
+  const effectiveMapping = mapping ?? ingestion.columnMapping;
+  const comparedFields = profile.extraFields.filter(field => effectiveMapping[field]);
+  const matchConfig: MatchConfig = { ...profile, extraFields: comparedFields, strictIdentifiers: true };
+
+  // Suspected duplicates are grouped across the whole file before any row is matched.
+  const duplicateClusters = findDuplicateClusters(entries, mapping, matchConfig);
+
+  // Rows are checked against earlier submissions only when a window is given.
+  const history = historyWindowDays > 0 ? await loadSubmissionHistory(historyWindowDays, { runId, toValidateUrl }) : null;
+
+  // The SSID/NIN/name lookups were built when the list was loaded; duplicate SSIDs are reported as warnings.
+  return { runId, entries, headers, ingestion, mapping, columnMapping: effectiveMapping, profile, matchConfig, sourceIndex: loadedSource.index, sourceList: loadedSource.list, snapshot: loadedSource.snapshot, sourceUrl, sourceRecordCount: loadedSource.records.length, history, duplicateClusters };
+}
+
+// --- Run ---
+/**
+ * Matches every entry and builds the summary. Stops with an AbortError when
+ * `signal` is aborted; the check runs between batches. On a resumed run the
+ * returned `results` hold only the rows produced by this call.
+ */
+export async function runValidation(prepared: PreparedValidation, options: RunOptions = {}): Promise<ValidationOutcome> {
+  const { entries, mapping, matchConfig, sourceIndex, history } = prepared;
+  const comparedFields = matchConfig.extraFields;
+  const emptyFieldChecks = Object.fromEntries(comparedFields.map(field => [fieldCheckColumn(field), '']));
+  const emptyHistoryColumn = history ? { [EARLIER_SUBMISSION_COLUMN]: '', [EARLIER_SESSION_COLUMN]: '' } : {};
+  const clusterOfRow = new Map(prepared.duplicateClusters.flatMap(cluster => cluster.rows.map(row => [row, cluster] as const)));
+  const clusterColumns = (row: number): Pick<ProcessedEntry, 'Duplicate Cluster' | 'Duplicate Confidence' | 'Duplicate Basis'> => {
+    const cluster = clusterOfRow.get(row);
+    return { 'Duplicate Cluster': cluster?.id ?? '', 'Duplicate Confidence': cluster?.confidence ?? '', 'Duplicate Basis': cluster?.basis.join('; ') ?? '' };
+  };
+
+  // Process each entry in the validation file and check for duplicates within it.
+  const results: ProcessedEntry[] = [];
+  const seenInValidation = new Set<string>();
+  const firstRow = options.resumeFrom?.processed ?? 0;
+  const counts = options.resumeFrom ? { ...options.resumeFrom.counts } : emptyCounts();
+  let duplicates = options.resumeFrom?.duplicates ?? 0;
+  let earlierSubmissions = options.resumeFrom?.earlierSubmissions ?? 0;
+  let processed = firstRow;
+
+  // Rows already processed still count towards duplicate detection.
+  for (const entry of entries.slice(0, firstRow)) {
+    const entrySSID = normalize(toMatchSubject(entry, mapping).ssid);
+    if (entrySSID) seenInValidation.add(entrySSID);
+  }
+
+  for (let start = firstRow; start < entries.length; start += BATCH_SIZE) {
+    options.signal?.throwIfAborted();
+    const batch: ProcessedEntry[] = [];
+
+    for (const [offset, entry] of entries.slice(start, start + BATCH_SIZE).entries()) {
+      const subject = toMatchSubject(entry, mapping, comparedFields);
+      const entrySSID = normalize(subject.ssid);
+
+      if (entrySSID) {
+        if (seenInValidation.has(entrySSID)) {
+          duplicates++;
+          batch.push({
+            ...entry,
+            'Match Status': 'Invalid',
+            'Match Reason': `Duplicate request in validation file (SSID: ${entrySSID}).`,
+            'Matched Name': '',
+            'Correct SSID': '',
+            'Correct NIN': '',
+            'Suggested ID': '',
+            'Name Candidates': '',
+            ...clusterColumns(start + offset),
+            ...emptyFieldChecks,
+            ...emptyHistoryColumn
+          });
+          continue;
+        }
+        seenInValidation.add(entrySSID);
+      }
+
+      // Get the match status against the source data.
+      const matchResult = matchEntry(subject, sourceIndex, matchConfig);
+      // A row already counted in an earlier batch is flagged beside its verdict, which it leaves as matched.
+      const earlier = history ? findEarlierSubmission(history, entry, mapping) : null;
+      if (earlier) earlierSubmissions++;
+      batch.push({
+        ...entry,
+        'Match Status': matchResult.status,
+        'Match Reason': matchResult.reason,
+        'Matched Name': matchResult.matchedName || '',
+        'Correct SSID': matchResult.matchedSSID || '',
+        'Correct NIN': matchResult.matchedNIN || '',
+        // For a probable typo, the identifier the row most likely meant (e.g. "SSID: KW2106010408").
+        'Suggested ID': matchResult.suggestion ? `${matchResult.suggestion.field}: ${matchResult.suggestion.value}` : '',
+        // For rows without identifiers, the closest source names for a reviewer to pick from.
+        'Name Candidates': (matchResult.nameCandidates || []).map(c => `${c.name} (SSID: ${c.ssid || 'N/A'}, ${c.score}%)`).join('; '),
+        // Other rows of the file that look like the same person, for the Duplicates tab.
+        ...clusterColumns(start + offset),
+        ...emptyFieldChecks,
+        ...Object.fromEntries((matchResult.fieldChecks || []).map(check => [fieldCheckColumn(check.field), describeFieldCheck(check)])),
+        ...(history ? { [EARLIER_SUBMISSION_COLUMN]: earlier ? describeEarlierSubmission(earlier) : '', [EARLIER_SESSION_COLUMN]: earlier?.runId ?? '' } : {})
+      });
+    }
+
+    for (const row of batch) countStatus(counts, row['Match Status']);
+    results.push(...batch);
+    processed += batch.length;
+    await options.onBatch?.(batch, { processed, total: entries.length, counts: { ...counts }, duplicates, earlierSubmissions });
+    await yieldToEventLoop();
+  }
+
+  return { headers: validationHeaders(prepared), results, summary: summarizeValidation(prepared, { processed, total: entries.length, counts, duplicates, earlierSubmissions }) };
+}
+
+/** The output columns: the file's own headers followed by the verdict columns. */
+export function validationHeaders(prepared: PreparedValidation): string[] {
+  const historyColumns = prepared.history ? [EARLIER_SUBMISSION_COLUMN, EARLIER_SESSION_COLUMN] : [];
+  return Array.from(new Set([...prepared.headers, ...RESULT_COLUMNS, ...prepared.matchConfig.extraFields.map(fieldCheckColumn), ...historyColumns]));
+}
+
+/** The summary of the rows processed so far; after the last batch, of the whole run. */
+export function summarizeValidation(prepared: PreparedValidation, progress: ValidationProgress): ValidationSummary {
+  return {
+    runId: prepared.runId,
+    total: progress.processed,
+    ...progress.counts,
+    duplicatesInValidationFile: progress.duplicates,
+    duplicateClusters: prepared.duplicateClusters.length,
+    rowsInDuplicateClusters: prepared.duplicateClusters.reduce((total, cluster) => total + cluster.rows.length, 0),
+    earlierSubmissions: progress.earlierSubmissions ?? 0,
+    submissionHistory: prepared.history ? { windowDays: prepared.history.windowDays, runs: prepared.history.runs } : null,
+    sourceFileWarnings: prepared.sourceIndex.warnings,
+    ingestion: prepared.ingestion,
+    columnMapping: prepared.columnMapping,
+    comparedFields: prepared.matchConfig.extraFields,
+    matchingProfile: prepared.profile,
+    sourceList: prepared.sourceList,
+    snapshot: prepared.snapshot,
+    sourceUrl: prepared.sourceUrl,
+    sourceUsed: prepared.sourceUrl ? 'Custom Source' : prepared.sourceList?.name ?? 'Default Master List',
+    sourceRecordCount: prepared.sourceRecordCount,
+  };
+}